@@ -6,6 +6,7 @@
  */
 
 import { Network } from '../src/network';
+import { Protocols } from './protocol';
 import { readFileSync } from 'fs';
 import { join } from 'path';
 
@@ -58,9 +59,7 @@ async function jwtSign(payload: any, secret: string, alg: string = "HS256", expi
 }
 
 class NetworkExample {
-  private network: Network | null = null;
-  private isRunning = false;
-  private updateInterval: NodeJS.Timeout | null = null;
+  private network: Network<Protocols> | null = null;
   private checksum: string | null = null;
 
   /**
@@ -70,7 +69,10 @@ class NetworkExample {
     try {
       // 创建协议缓冲区
       const protocolBuffer = this.createProtocolBuffer();
-      this.network = new Network(protocolBuffer);
+      this.network = new Network<Protocols>(protocolBuffer, "base.package", {
+        // 断线后自动重连，恢复 goscon 会话
+        reconnect: { maxAttempts: 5, deadline: 30000 }
+      });
       this.checksum = this.network.checksumValue();
       console.log('协议校验码:', this.checksum);
 
@@ -125,13 +127,12 @@ class NetworkExample {
     if (!this.network) return;
 
     // 注册登录响应处理器
-    this.network.register('login.login', (request: any) => {
+    this.network.register('login.login', (request) => {
       console.log('处理登录请求:', request);
       return {
-        success: true,
-        userId: 12345,
-        username: request.username,
-        token: 'mock_token_' + Date.now()
+        code: 0,
+        account: 'mock_account_' + Date.now(),
+        gamenode: 'game1'
       };
     });
 
@@ -141,31 +142,18 @@ class NetworkExample {
    * 开始网络更新循环
    */
   private startUpdateLoop(): void {
-    this.isRunning = true;
-
-    this.updateInterval = setInterval(() => {
-      if (!this.network || !this.isRunning) {
-        return;
-      }
-
-      const updateResult = this.network.update();
-
-      if (!updateResult.success) {
-        console.error(`网络更新错误: ${updateResult.error}`);
+    if (!this.network) return;
 
-        if (updateResult.status === 'connect_break') {
-          console.log('连接断开，尝试重连...');
-          this.handleReconnect();
-        }
-      }
-    }, 50); // 每50ms更新一次
-  }
+    this.network.on('error', ({ error }) => {
+      console.error(`网络错误: ${error.message}`);
+    });
+    this.network.on('disconnected', ({ reason }) => {
+      // 重连由 Network 按 reconnect 策略自动完成
+      console.log(`连接断开: ${reason}`);
+    });
 
-  /**
-   * 处理重连
-   */
-  private async handleReconnect(): Promise<void> {
-    // 这里可以实现重连逻辑
+    // 每50ms更新一次
+    this.network.start({ mode: 'interval', intervalMs: 50 });
   }
 
   /**
@@ -180,7 +168,7 @@ class NetworkExample {
     try {
       const ctx = {
         rid: 0,
-        proto_checksum: this.checksum,
+        proto_checksum: this.checksum || undefined,
       };
       const data = {
         token,
@@ -201,14 +189,6 @@ class NetworkExample {
    * 断开连接
    */
   disconnect(): void {
-
-    this.isRunning = false;
-
-    if (this.updateInterval) {
-      clearInterval(this.updateInterval);
-      this.updateInterval = null;
-    }
-
     if (this.network) {
       this.network.close();
       this.network = null;
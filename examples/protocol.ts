@@ -0,0 +1,92 @@
+/* 此文件由 sproto 类型生成器自动生成，请勿手动修改 */
+
+/** base.package */
+export interface BasePackage {
+  type?: number;
+  session?: number;
+  ud?: number;
+}
+
+/** login.report_remote_addr.request */
+export interface LoginReportRemoteAddrRequest {
+  remote_addr?: string;
+  local_addr?: string;
+}
+
+/** login.context */
+export interface LoginContext {
+  rid?: number;
+  proto_checksum?: string;
+}
+
+/** login.login.request */
+export interface LoginLoginRequest {
+  token?: string;
+  ctx?: LoginContext;
+}
+
+/** login.login.response */
+export interface LoginLoginResponse {
+  code?: number;
+  account?: string;
+  gamenode?: string;
+}
+
+/** login.login_role_info */
+export interface LoginLoginRoleInfo {
+  rid?: number;
+  name?: string;
+}
+
+/** login.get_roles.response */
+export interface LoginGetRolesResponse {
+  roles?: LoginLoginRoleInfo[];
+}
+
+/** login.choose_role.request */
+export interface LoginChooseRoleRequest {
+  rid?: number;
+}
+
+/** login.choose_role.response */
+export interface LoginChooseRoleResponse {
+  code?: number;
+  gamenode?: string;
+}
+
+/** login.create_role.request */
+export interface LoginCreateRoleRequest {
+  name?: string;
+}
+
+/** login.create_role.response */
+export interface LoginCreateRoleResponse {
+  code?: number;
+  rid?: number;
+}
+
+/** role.role */
+export interface RoleRole {
+  rid?: number;
+  name?: string;
+}
+
+/** role.login_info.request */
+export interface RoleLoginInfoRequest {
+}
+
+/** role.login_info.response */
+export interface RoleLoginInfoResponse {
+  info?: RoleRole;
+}
+
+/** 协议映射表，用作 Network 的类型参数 */
+export interface Protocols {
+  "login.report_remote_addr": { request: LoginReportRemoteAddrRequest; response: undefined };
+  "login.login": { request: LoginLoginRequest; response: LoginLoginResponse };
+  "login.logout": { request: undefined; response: undefined };
+  "login.get_roles": { request: undefined; response: LoginGetRolesResponse };
+  "login.choose_role": { request: LoginChooseRoleRequest; response: LoginChooseRoleResponse };
+  "login.create_role": { request: LoginCreateRoleRequest; response: LoginCreateRoleResponse };
+  "role.login_info": { request: RoleLoginInfoRequest; response: RoleLoginInfoResponse };
+}
@@ -0,0 +1,90 @@
+/**
+ * sproto 类型生成器命令行入口
+ *
+ * 用法: bun run scripts/gen-proto.ts <文件或目录...> [-o 输出文件] [--map 映射表接口名]
+ * 目录会递归查找 .sproto 文件，未指定输出文件时打印到标准输出
+ * 依赖 Node.js 的 fs/path，不在 src 中，不会编译进浏览器端的库
+ */
+
+import { readFileSync, writeFileSync, readdirSync, statSync } from 'fs';
+import { basename, extname, join } from 'path';
+import { generate, SprotoSource } from '../src/codegen';
+
+/**
+ * 命令行参数接口
+ */
+interface CliArgs {
+  inputs: string[];
+  output?: string;
+  mapName?: string;
+}
+
+/**
+ * 解析命令行参数
+ * @param argv 命令行参数
+ * @returns 解析结果
+ */
+function parseArgs(argv: string[]): CliArgs {
+  const args: CliArgs = { inputs: [] };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === "-o" || arg === "--out") {
+      args.output = argv[++i];
+    } else if (arg === "--map") {
+      args.mapName = argv[++i];
+    } else {
+      args.inputs.push(arg);
+    }
+  }
+  return args;
+}
+
+/**
+ * 递归收集 .sproto 文件
+ * @param path 文件或目录路径
+ * @param out 输出文件列表
+ */
+function collectFiles(path: string, out: string[]): void {
+  if (statSync(path).isDirectory()) {
+    for (const entry of readdirSync(path).sort()) {
+      const child = join(path, entry);
+      if (statSync(child).isDirectory() || extname(entry) === ".sproto") {
+        collectFiles(child, out);
+      }
+    }
+  } else {
+    out.push(path);
+  }
+}
+
+function main(): void {
+  const args = parseArgs(process.argv.slice(2));
+  if (args.inputs.length === 0) {
+    console.error("用法: sproto-gen <文件或目录...> [-o 输出文件] [--map 映射表接口名]");
+    process.exit(1);
+  }
+
+  const files: string[] = [];
+  for (const input of args.inputs) {
+    collectFiles(input, files);
+  }
+
+  const sources: SprotoSource[] = files.map(file => ({
+    prefix: basename(file, extname(file)),
+    content: readFileSync(file, "utf-8")
+  }));
+
+  const code = generate(sources, { mapName: args.mapName });
+  if (args.output) {
+    writeFileSync(args.output, code);
+  } else {
+    process.stdout.write(code);
+  }
+}
+
+try {
+  main();
+} catch (error) {
+  console.error(String(error));
+  process.exit(1);
+}
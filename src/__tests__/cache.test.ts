@@ -0,0 +1,108 @@
+/**
+ * SConn 重传缓存测试
+ */
+
+import { Cache } from '../sconn';
+
+/**
+ * 生成从 start 开始递增的字节
+ */
+function bytes(start: number, length: number): Uint8Array {
+  return Uint8Array.from({ length }, (_, i) => (start + i) & 0xff);
+}
+
+/**
+ * 合并 get() 返回的数据段
+ */
+function join(segments: Uint8Array[]): number[] {
+  const result: number[] = [];
+  for (const segment of segments) {
+    result.push(...Array.from(segment));
+  }
+  return result;
+}
+
+describe('Cache', () => {
+  it('未跨过缓冲区末尾时返回单个数据段', () => {
+    const cache = new Cache(16);
+    cache.insert(bytes(0, 4));
+    cache.insert(bytes(4, 4));
+
+    const segments = cache.get(6) as Uint8Array[];
+    expect(segments).toHaveLength(1);
+    expect(join(segments)).toEqual([2, 3, 4, 5, 6, 7]);
+  });
+
+  it('数据跨过缓冲区末尾时分为两段并保持顺序', () => {
+    const cache = new Cache(8);
+    cache.insert(bytes(0, 5));
+    cache.insert(bytes(5, 5));
+
+    const segments = cache.get(6) as Uint8Array[];
+    expect(segments).toHaveLength(2);
+    expect(join(segments)).toEqual([4, 5, 6, 7, 8, 9]);
+    expect(join(cache.get(8) as Uint8Array[])).toEqual([2, 3, 4, 5, 6, 7, 8, 9]);
+  });
+
+  it('写满后恰好回到起点时返回单个数据段', () => {
+    const cache = new Cache(8);
+    cache.insert(bytes(0, 4));
+    cache.insert(bytes(4, 4));
+
+    const segments = cache.get(8) as Uint8Array[];
+    expect(segments).toHaveLength(1);
+    expect(join(segments)).toEqual([0, 1, 2, 3, 4, 5, 6, 7]);
+  });
+
+  it('超出预算的数据只保留末尾部分', () => {
+    const cache = new Cache(4);
+    cache.insert(bytes(0, 3));
+    cache.insert(bytes(10, 6));
+
+    expect(join(cache.get(4) as Uint8Array[])).toEqual([12, 13, 14, 15]);
+    expect(cache.get(5)).toBeNull();
+  });
+
+  it('缓存不足时返回 null，请求 0 字节时返回空列表', () => {
+    const cache = new Cache(8);
+    cache.insert(bytes(0, 3));
+
+    expect(cache.get(4)).toBeNull();
+    expect(cache.get(0)).toEqual([]);
+  });
+
+  it('clear() 后不再保留数据', () => {
+    const cache = new Cache(8);
+    cache.insert(bytes(0, 6));
+    cache.clear();
+
+    expect(cache.get(1)).toBeNull();
+    cache.insert(bytes(20, 2));
+    expect(join(cache.get(2) as Uint8Array[])).toEqual([20, 21]);
+  });
+
+  it('断线后写入的数据接近和超出预算时各回调一次', () => {
+    const onPressure = jest.fn();
+    const cache = new Cache(10, onPressure);
+
+    cache.insert(bytes(0, 9));
+    expect(onPressure).not.toHaveBeenCalled();
+
+    cache.startTracking();
+    cache.insert(bytes(0, 7));
+    expect(onPressure).not.toHaveBeenCalled();
+    cache.insert(bytes(0, 1));
+    expect(onPressure).toHaveBeenLastCalledWith(8, 10, false);
+    cache.insert(bytes(0, 1));
+    expect(onPressure).toHaveBeenCalledTimes(1);
+    cache.insert(bytes(0, 2));
+    expect(onPressure).toHaveBeenLastCalledWith(11, 10, true);
+    cache.insert(bytes(0, 2));
+    expect(onPressure).toHaveBeenCalledTimes(2);
+
+    cache.stopTracking();
+    cache.startTracking();
+    cache.insert(bytes(0, 8));
+    expect(onPressure).toHaveBeenLastCalledWith(8, 10, false);
+  });
+});
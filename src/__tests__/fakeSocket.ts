@@ -0,0 +1,73 @@
+/**
+ * 测试用的模拟 WebSocket
+ */
+
+import { CryptUtils } from '../crypto';
+import { packData } from '../sconn';
+
+/**
+ * 模拟 WebSocket，由测试控制连接建立、收到数据和对端断开
+ */
+export class FakeSocket {
+  url: string;
+  binaryType: string = 'blob';
+  readyState: number = 0;
+  sent: Uint8Array[] = [];
+  onopen: ((event: any) => void) | null = null;
+  onmessage: ((event: any) => void) | null = null;
+  onclose: ((event: any) => void) | null = null;
+  onerror: ((event: any) => void) | null = null;
+
+  constructor(url: string) {
+    this.url = url;
+  }
+
+  send(data: Uint8Array): void {
+    this.sent.push(data);
+  }
+
+  close(): void {
+    this.readyState = 3;
+  }
+
+  open(): void {
+    this.readyState = 1;
+    this.onopen!({});
+  }
+
+  /**
+   * 收到一条带 2 字节大端包头的消息
+   * @param data 消息内容，字符串按 UTF-8 编码
+   */
+  receive(data: string | Uint8Array): void {
+    const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : data;
+    this.onmessage!({ data: packData(bytes, 2, 'big') });
+  }
+
+  /**
+   * 收到 goscon 新连接握手回复
+   * @param id 连接 id
+   */
+  accept(id: number = 1): void {
+    const serverKey = CryptUtils.dhExchange(CryptUtils.generateRandomKey());
+    this.receive(`${id}\n${CryptUtils.base64Encode(serverKey)}`);
+  }
+
+  drop(): void {
+    this.readyState = 3;
+    this.onclose!({ code: 1006, reason: '' });
+  }
+}
+
+/**
+ * 创建记录所有模拟 WebSocket 的工厂函数
+ * @param sockets 创建的模拟 WebSocket 按顺序追加到该数组
+ * @returns WebSocket 工厂函数
+ */
+export function fakeTransport(sockets: FakeSocket[]): (url: string) => WebSocket {
+  return (url: string) => {
+    const socket = new FakeSocket(url);
+    sockets.push(socket);
+    return socket as unknown as WebSocket;
+  };
+}
@@ -0,0 +1,136 @@
+/**
+ * 心跳和对端失联检测测试
+ *
+ * @jest-environment node
+ */
+
+jest.mock('../codec/sproto', () => ({ SprotoCodec: class {} }));
+
+import { Network } from '../network';
+import { JsonCodec } from '../codec/json';
+import { Heartbeat } from '../heartbeat';
+import { FakeSocket, fakeTransport } from './fakeSocket';
+
+describe('Heartbeat', () => {
+  it('连续 interval 没有发出数据时发送心跳', () => {
+    const heartbeat = new Heartbeat({ interval: 1000, timeout: 0 });
+    expect(heartbeat.tick(0, { sent: 0, received: 0 })).toBe('none');
+    expect(heartbeat.tick(999, { sent: 0, received: 0 })).toBe('none');
+    expect(heartbeat.tick(1000, { sent: 0, received: 0 })).toBe('ping');
+    // 心跳未能发出时同样等待一个完整间隔
+    expect(heartbeat.tick(1999, { sent: 0, received: 0 })).toBe('none');
+    expect(heartbeat.tick(2000, { sent: 0, received: 0 })).toBe('ping');
+  });
+
+  it('发出数据后重新计时', () => {
+    const heartbeat = new Heartbeat({ interval: 1000, timeout: 0 });
+    heartbeat.tick(0, { sent: 0, received: 0 });
+    expect(heartbeat.tick(800, { sent: 10, received: 0 })).toBe('none');
+    expect(heartbeat.tick(1500, { sent: 10, received: 0 })).toBe('none');
+    expect(heartbeat.tick(1800, { sent: 10, received: 0 })).toBe('ping');
+  });
+
+  it('连续 timeout 没有收到数据时判定失联，之后重新计时', () => {
+    const heartbeat = new Heartbeat({ interval: 0, timeout: 3000 });
+    heartbeat.tick(0, { sent: 0, received: 0 });
+    expect(heartbeat.tick(2000, { sent: 0, received: 5 })).toBe('none');
+    expect(heartbeat.tick(4999, { sent: 0, received: 5 })).toBe('none');
+    expect(heartbeat.tick(5000, { sent: 0, received: 5 })).toBe('timeout');
+    expect(heartbeat.tick(5001, { sent: 0, received: 5 })).toBe('none');
+  });
+
+  it('interval 和 timeout 为 0 时不发送心跳也不检测', () => {
+    const heartbeat = new Heartbeat({ interval: 0, timeout: 0 });
+    heartbeat.tick(0, { sent: 0, received: 0 });
+    expect(heartbeat.tick(1000000, { sent: 0, received: 0 })).toBe('none');
+  });
+});
+
+describe('Network 心跳', () => {
+  const FRAME = Uint8Array.from([0xff]);
+  const PUSH = JSON.stringify({ type: 'request', name: 'role.notify', data: {} });
+  let now: number;
+  let sockets: FakeSocket[];
+  let network: Network;
+
+  beforeEach(() => {
+    now = 1000000;
+    sockets = [];
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+
+    network = new Network(new JsonCodec(), 'base.package', {
+      heartbeat: { interval: 1000, timeout: 3000, frame: FRAME },
+      reconnect: { initialDelay: 1000, jitter: 0, deadline: 0 },
+      connection: { transport: fakeTransport(sockets) }
+    });
+    network.connect('ws://127.0.0.1:1248');
+    sockets[0].open();
+    network.update();
+    sockets[0].accept();
+    network.update();
+    expect(network.curState()).toBe('forward');
+  });
+
+  /**
+   * 握手之后发出的消息
+   */
+  function sentFrames(socket: FakeSocket): number[][] {
+    return socket.sent.slice(1).map(frame => Array.from(frame));
+  }
+
+  it('连接空闲时发送心跳帧', () => {
+    now += 999;
+    network.update();
+    expect(sentFrames(sockets[0])).toEqual([]);
+
+    now += 1;
+    network.update();
+    expect(sentFrames(sockets[0])).toEqual([[0, 1, 0xff]]);
+
+    // 收到数据不影响发送心跳的计时
+    sockets[0].receive(PUSH);
+    network.update();
+    now += 1000;
+    network.update();
+    expect(sentFrames(sockets[0])).toEqual([[0, 1, 0xff], [0, 1, 0xff]]);
+  });
+
+  it('对端失联时断开连接并自动重连恢复会话', () => {
+    const reasons: { reason: string; error?: string }[] = [];
+    const reconnected = jest.fn();
+    network.on('disconnected', (payload) => reasons.push(payload));
+    network.on('reconnected', reconnected);
+
+    now += 2000;
+    network.update();
+    sockets[0].receive(PUSH);
+    network.update();
+
+    // 收到数据后重新计时
+    now += 2999;
+    network.update();
+    expect(reasons).toEqual([]);
+
+    now += 1;
+    network.update();
+    expect(reasons).toEqual([{ reason: 'connect_break', error: 'heartbeat_timeout' }]);
+    expect(sockets[0].readyState).toBe(3);
+    expect(sockets.length).toBe(1);
+
+    // 下一次更新按传输断开处理，发起重连
+    network.update();
+    expect(sockets.length).toBe(2);
+    expect(network.curState()).toBe('reconnect');
+
+    sockets[1].open();
+    network.update();
+    sockets[1].receive('0\n200');
+    network.update();
+    expect(network.curState()).toBe('forward');
+    expect(reconnected).toHaveBeenCalledTimes(1);
+
+    // 服务器没有收到的两次心跳在重连后一起补发
+    expect(sentFrames(sockets[0])).toEqual([[0, 1, 0xff], [0, 1, 0xff]]);
+    expect(sentFrames(sockets[1])).toEqual([[0, 1, 0xff, 0, 1, 0xff]]);
+  });
+});
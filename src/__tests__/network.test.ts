@@ -0,0 +1,134 @@
+/**
+ * Network 断线重连与连接超时测试
+ *
+ * @jest-environment node
+ */
+
+jest.mock('../codec/sproto', () => ({ SprotoCodec: class {} }));
+
+import { Network } from '../network';
+import { JsonCodec } from '../codec/json';
+import { ConnectTimeoutError, ConnectionClosedError } from '../errors';
+import { FakeSocket, fakeTransport } from './fakeSocket';
+
+const URL = 'ws://127.0.0.1:1248';
+
+describe('Network 重连与连接超时', () => {
+  let now: number;
+  let sockets: FakeSocket[];
+
+  beforeEach(() => {
+    now = 1000000;
+    sockets = [];
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+  });
+
+  /**
+   * 创建使用模拟 WebSocket 的 Network
+   */
+  function createNetwork(): Network {
+    return new Network(new JsonCodec(), 'base.package', {
+      reconnect: { initialDelay: 1000, jitter: 0, maxAttempts: 5, deadline: 0 },
+      connection: {
+        dialTimeout: 5000,
+        handshakeTimeout: 3000,
+        transport: fakeTransport(sockets)
+      }
+    });
+  }
+
+  /**
+   * 完成新连接握手，进入 forward 状态
+   */
+  function establish(network: Network): void {
+    expect(network.connect(URL).success).toBe(true);
+    sockets[0].open();
+    network.update();
+    sockets[0].accept();
+    network.update();
+    expect(network.curState()).toBe('forward');
+  }
+
+  it('重连建立连接超时只结束本次尝试，按退避策略再次重连', () => {
+    const network = createNetwork();
+    const attempts: number[] = [];
+    const reasons: string[] = [];
+    const reconnected = jest.fn();
+    network.on('reconnecting', ({ attempt }) => attempts.push(attempt));
+    network.on('disconnected', ({ reason }) => reasons.push(reason));
+    network.on('reconnected', reconnected);
+    establish(network);
+
+    // 对端断开后立即发起第一次重连
+    sockets[0].drop();
+    network.update();
+    expect(attempts).toEqual([1]);
+    expect(sockets.length).toBe(2);
+
+    // 新的 WebSocket 迟迟没有建立
+    now += 5001;
+    const result = network.update();
+    expect(result.status).toBe('connect_break');
+    expect(network.curState()).toBe('reconnect');
+    expect(attempts).toEqual([1]);
+
+    // 退避等待结束后再次重连
+    now += 1000;
+    network.update();
+    expect(attempts).toEqual([1, 2]);
+    expect(sockets.length).toBe(3);
+
+    sockets[2].open();
+    network.update();
+    sockets[2].receive('0\n200');
+    network.update();
+    expect(network.curState()).toBe('forward');
+    expect(reconnected).toHaveBeenCalledTimes(1);
+    expect(reasons).toEqual(['connect_break']);
+  });
+
+  it('重连等待握手回复超时同样按 connect_break 处理', () => {
+    const network = createNetwork();
+    const attempts: number[] = [];
+    network.on('reconnecting', ({ attempt }) => attempts.push(attempt));
+    establish(network);
+
+    sockets[0].drop();
+    network.update();
+    sockets[1].open();
+    network.update();
+
+    now += 3001;
+    expect(network.update().status).toBe('connect_break');
+    expect(network.curState()).toBe('reconnect');
+
+    now += 1000;
+    network.update();
+    expect(attempts).toEqual([1, 2]);
+  });
+
+  it('新连接超时进入 connect_timeout 状态并拒绝未完成的请求', async () => {
+    const network = createNetwork();
+    const reasons: string[] = [];
+    const errors: Error[] = [];
+    network.on('disconnected', ({ reason }) => reasons.push(reason));
+    network.on('error', ({ error }) => errors.push(error));
+
+    expect(network.connect(URL).success).toBe(true);
+    const pending = network.call('login', {});
+
+    now += 5001;
+    expect(network.update().status).toBe('connect_timeout');
+    expect(network.curState()).toBe('connect_timeout');
+    expect(reasons).toEqual(['connect_timeout']);
+    expect(errors[0]).toBeInstanceOf(ConnectTimeoutError);
+    expect((errors[0] as ConnectTimeoutError).phase).toBe('dial');
+    await expect(pending).rejects.toBeInstanceOf(ConnectionClosedError);
+    await expect(pending).rejects.toMatchObject({ reason: 'connect_timeout' });
+
+    // 新连接超时后不会自动重连
+    now += 10000;
+    network.update();
+    expect(sockets.length).toBe(1);
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * 出站消息队列测试
+ */
+
+import { OutboundItem, OutboundQueue } from '../outbound';
+
+/**
+ * 创建指定字节数的出站消息
+ */
+function item(session: number, bytes: number = 1): OutboundItem {
+  return { name: 'role.move', data: new Uint8Array(bytes), session };
+}
+
+/**
+ * 取出队列中消息的会话索引
+ */
+function sessions(items: OutboundItem[]): (number | undefined)[] {
+  return items.map(entry => entry.session);
+}
+
+describe('OutboundQueue', () => {
+  it('reject 策略下队列已满时拒绝新消息', () => {
+    const queue = new OutboundQueue({ maxSize: 2 });
+    expect(queue.push(item(1), true).accepted).toBe(true);
+    expect(queue.push(item(2), true).accepted).toBe(true);
+    expect(queue.push(item(3), true)).toEqual({ accepted: false, dropped: [] });
+    expect(sessions(queue.drain())).toEqual([1, 2]);
+    expect(queue.isEmpty()).toBe(true);
+  });
+
+  it('reject 策略下超出字节限制时拒绝新消息', () => {
+    const queue = new OutboundQueue({ maxBytes: 10 });
+    expect(queue.push(item(1, 6), true).accepted).toBe(true);
+    expect(queue.push(item(2, 5), true).accepted).toBe(false);
+    expect(queue.push(item(3, 4), true).accepted).toBe(true);
+    expect(queue.size()).toBe(2);
+  });
+
+  it('drop-oldest 策略下丢弃最早的消息', () => {
+    const queue = new OutboundQueue({ maxSize: 2, overflow: 'drop-oldest' });
+    queue.push(item(1), true);
+    queue.push(item(2), true);
+    const result = queue.push(item(3), false);
+    expect(result.accepted).toBe(true);
+    expect(sessions(result.dropped)).toEqual([1]);
+    expect(sessions(queue.drain())).toEqual([2, 3]);
+  });
+
+  it('drop-oldest 策略下按字节限制可能一次丢弃多条消息', () => {
+    const queue = new OutboundQueue({ maxBytes: 10, overflow: 'drop-oldest' });
+    queue.push(item(1, 4), true);
+    queue.push(item(2, 4), true);
+    queue.push(item(3, 2), true);
+
+    const result = queue.push(item(4, 7), true);
+    expect(result.accepted).toBe(true);
+    expect(sessions(result.dropped)).toEqual([1, 2]);
+    expect(sessions(queue.drain())).toEqual([3, 4]);
+  });
+
+  it('drop-oldest 策略下本身超出字节限制的消息直接拒绝，不丢弃已有消息', () => {
+    const queue = new OutboundQueue({ maxBytes: 10, overflow: 'drop-oldest' });
+    queue.push(item(1, 4), true);
+    expect(queue.push(item(2, 11), true)).toEqual({ accepted: false, dropped: [] });
+    expect(sessions(queue.drain())).toEqual([1]);
+  });
+
+  it('block 策略下能等待的消息进入等待列表，不能等待的按 reject 处理', () => {
+    const queue = new OutboundQueue({ maxSize: 1, overflow: 'block' });
+    queue.push(item(1), true);
+    expect(queue.push(item(2), true).accepted).toBe(true);
+    expect(queue.push(item(3), false).accepted).toBe(false);
+    expect(queue.size()).toBe(1);
+    expect(sessions(queue.drain())).toEqual([1, 2]);
+  });
+
+  it('block 策略下有消息在等待时，新消息排在等待列表之后', () => {
+    const queue = new OutboundQueue({ maxSize: 2, maxBytes: 10, overflow: 'block' });
+    queue.push(item(1, 8), true);
+    queue.push(item(2, 5), true);
+    // 队列还放得下，但不能越过等待中的消息
+    queue.push(item(3, 1), true);
+    expect(queue.size()).toBe(1);
+    expect(sessions(queue.drain())).toEqual([1, 2, 3]);
+  });
+
+  it('移除队列中的消息后按顺序将等待列表中的消息移入队列', () => {
+    const queue = new OutboundQueue({ maxSize: 2, overflow: 'block' });
+    queue.push(item(1), true);
+    queue.push(item(2), true);
+    queue.push(item(3), true);
+    queue.push(item(4), true);
+
+    queue.remove(1);
+    expect(queue.size()).toBe(2);
+    queue.remove(2);
+    expect(queue.size()).toBe(2);
+    expect(sessions(queue.drain())).toEqual([3, 4]);
+  });
+
+  it('移除等待列表中的消息', () => {
+    const queue = new OutboundQueue({ maxSize: 1, overflow: 'block', maxWaiting: 2 });
+    queue.push(item(1), true);
+    queue.push(item(2), true);
+    queue.push(item(3), true);
+
+    queue.remove(2);
+    queue.remove(1);
+    expect(sessions(queue.drain())).toEqual([3]);
+  });
+
+  it('block 策略下等待列表达到 maxWaiting 时拒绝新消息', () => {
+    const queue = new OutboundQueue({ maxSize: 1, overflow: 'block', maxWaiting: 2 });
+    queue.push(item(1), true);
+    expect(queue.push(item(2), true).accepted).toBe(true);
+    expect(queue.push(item(3), true).accepted).toBe(true);
+    expect(queue.push(item(4), true)).toEqual({ accepted: false, dropped: [] });
+
+    // 等待列表腾出位置后可以再次等待
+    queue.remove(1);
+    expect(queue.push(item(5), true).accepted).toBe(true);
+    expect(sessions(queue.clear())).toEqual([2, 3, 5]);
+  });
+
+  it('maxWaiting 默认与 maxSize 相同', () => {
+    const queue = new OutboundQueue({ maxSize: 1, overflow: 'block' });
+    queue.push(item(1), true);
+    expect(queue.push(item(2), true).accepted).toBe(true);
+    expect(queue.push(item(3), true).accepted).toBe(false);
+  });
+});
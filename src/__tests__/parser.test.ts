@@ -0,0 +1,150 @@
+/**
+ * sproto 协议文本解析器测试
+ */
+
+import { parseSproto, SprotoSchema } from '../codegen/parser';
+
+/**
+ * 按完整名称查找字段类型
+ */
+function fieldType(schema: SprotoSchema, typeName: string, fieldName: string): string | undefined {
+  const type = schema.types.find(item => item.name === typeName);
+  const field = type ? type.fields.find(item => item.name === fieldName) : undefined;
+  return field ? field.type : undefined;
+}
+
+describe('parseSproto', () => {
+  it('类型名和协议名以文件名为前缀', () => {
+    const schema = parseSproto([{
+      prefix: 'login',
+      content: `
+.role {
+  rid 0 : integer
+  name 1 : string
+}
+
+get_roles 1 {
+  response {
+    roles 0 : *role(rid)
+  }
+}
+`
+    }]);
+
+    expect(schema.types.map(type => type.name)).toEqual(['login.role', 'login.get_roles.response']);
+    expect(schema.protocols).toEqual([{
+      name: 'login.get_roles',
+      tag: 1,
+      response: 'login.get_roles.response',
+      confirm: false
+    }]);
+
+    const roles = schema.types[1].fields[0];
+    expect(roles).toEqual({ name: 'roles', tag: 0, type: 'login.role', array: true, extra: 'rid' });
+  });
+
+  it('嵌套类型优先于外层同名类型', () => {
+    const schema = parseSproto([{
+      prefix: 'role',
+      content: `
+.item {
+  id 0 : integer
+}
+
+.bag {
+  .item {
+    slot 0 : integer
+  }
+  items 0 : *item
+  .page {
+    current 0 : item
+  }
+}
+
+.shop {
+  goods 0 : *item
+}
+`
+    }]);
+
+    expect(fieldType(schema, 'role.bag', 'items')).toBe('role.bag.item');
+    expect(fieldType(schema, 'role.bag.page', 'current')).toBe('role.bag.item');
+    expect(fieldType(schema, 'role.shop', 'goods')).toBe('role.item');
+  });
+
+  it('使用完整名称引用其它文件中的类型，与文件的解析顺序无关', () => {
+    const schema = parseSproto([
+      {
+        prefix: 'login',
+        content: `
+login 1 {
+  request {
+    ctx 0 : common.context
+  }
+  response common.result
+}
+`
+      },
+      {
+        prefix: 'common',
+        content: `
+.context {
+  token 0 : string
+}
+
+.result {
+  code 0 : integer
+}
+`
+      }
+    ]);
+
+    expect(fieldType(schema, 'login.login.request', 'ctx')).toBe('common.context');
+    expect(schema.protocols[0].response).toBe('common.result');
+  });
+
+  it('协议的 request/response 引用按文件作用域解析', () => {
+    const schema = parseSproto([{
+      prefix: 'chat',
+      content: `
+.message {
+  text 0 : string
+}
+
+send 1 {
+  request message
+  response nil
+}
+`
+    }]);
+
+    expect(schema.protocols[0]).toEqual({
+      name: 'chat.send',
+      tag: 1,
+      request: 'chat.message',
+      confirm: true
+    });
+  });
+
+  it('引用未定义的类型时报错', () => {
+    expect(() => parseSproto([{
+      prefix: 'login',
+      content: `
+.role {
+  pet 0 : pet
+}
+`
+    }])).toThrow("Undefined type 'pet' in login.role");
+  });
+
+  it('语法错误时报告文件和行号', () => {
+    expect(() => parseSproto([{
+      prefix: 'login',
+      content: `
+.role {
+  rid 0 integer
+}
+`
+    }])).toThrow("Expected ':' but got 'integer' at login:3");
+  });
+});
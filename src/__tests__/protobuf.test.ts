@@ -0,0 +1,90 @@
+/**
+ * protobuf 风格编解码器测试
+ */
+
+import { ProtobufCodec, ProtobufMessageType } from '../codec/protobuf';
+
+/**
+ * 原样收发字节的消息类型
+ */
+const raw: ProtobufMessageType = {
+  encode: (message: Uint8Array) => message,
+  decode: (data: Uint8Array) => Array.from(data)
+};
+
+/**
+ * 拼接字节数组
+ */
+function concat(...parts: number[][]): Uint8Array {
+  return Uint8Array.from(([] as number[]).concat(...parts));
+}
+
+describe('ProtobufCodec', () => {
+  const codec = new ProtobufCodec({
+    protocols: {
+      login: { id: 1, request: raw, response: raw }
+    }
+  });
+  const request = Array.from(codec.encodeRequest('login', Uint8Array.from([7, 8]), 3));
+
+  it('跳过 fixed64 和 fixed32 类型的未知字段', () => {
+    // field 5 fixed64，field 6 fixed32
+    const fixed64 = [(5 << 3) | 1, 1, 2, 3, 4, 5, 6, 7, 8];
+    const fixed32 = [(6 << 3) | 5, 1, 2, 3, 4];
+
+    expect(codec.decode(concat(fixed64, request, fixed32), () => undefined)).toEqual({
+      type: 'REQUEST',
+      name: 'login',
+      data: [7, 8],
+      session: 3
+    });
+  });
+
+  it('fixed 字段数据不足时报错', () => {
+    expect(() => codec.decode(concat(request, [(6 << 3) | 5, 1, 2]), () => undefined))
+      .toThrow('Truncated protobuf field');
+    expect(() => codec.decode(concat(request, [(5 << 3) | 1, 1, 2, 3, 4]), () => undefined))
+      .toThrow('Truncated protobuf field');
+  });
+
+  it('group 编码的字段报错', () => {
+    expect(() => codec.decode(concat(request, [(7 << 3) | 3]), () => undefined))
+      .toThrow('Unsupported protobuf wire type 3');
+    expect(() => codec.decode(concat(request, [(7 << 3) | 4]), () => undefined))
+      .toThrow('Unsupported protobuf wire type 4');
+  });
+
+  it('省略零值 type 字段的请求按请求解码', () => {
+    // protocol 1，session 3，payload [7, 8]，不带 type
+    const message = concat([(2 << 3) | 0, 1], [(3 << 3) | 0, 3], [(4 << 3) | 2, 2, 7, 8]);
+
+    expect(codec.decode(message, () => undefined)).toEqual({
+      type: 'REQUEST',
+      name: 'login',
+      data: [7, 8],
+      session: 3
+    });
+  });
+
+  it('省略零值 session 字段的响应按会话 0 解码', () => {
+    const lookup = jest.fn((session: number) => session === 0 ? 'login' : undefined);
+    // type 1，payload [9]，不带 session
+    const message = concat([(1 << 3) | 0, 1], [(4 << 3) | 2, 1, 9]);
+
+    expect(codec.decode(message, lookup)).toEqual({ type: 'RESPONSE', session: 0, data: [9] });
+    expect(lookup).toHaveBeenCalledWith(0);
+  });
+
+  it('会话 0 的请求与响应可以往返编解码', () => {
+    const zero = new ProtobufCodec({
+      protocols: {
+        ping: { id: 0, request: raw, response: raw }
+      }
+    });
+    const request = zero.decode(zero.encodeRequest('ping', Uint8Array.from([1]), 0), () => undefined);
+    expect(request).toEqual({ type: 'REQUEST', name: 'ping', data: [1], session: 0 });
+
+    const response = zero.encodeResponse({ type: 'REQUEST', name: 'ping', data: [1], session: 0 }, Uint8Array.from([2]));
+    expect(zero.decode(response, () => 'ping')).toEqual({ type: 'RESPONSE', session: 0, data: [2] });
+  });
+});
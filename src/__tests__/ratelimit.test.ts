@@ -0,0 +1,219 @@
+/**
+ * 请求限流测试
+ *
+ * @jest-environment node
+ */
+
+jest.mock('../codec/sproto', () => ({ SprotoCodec: class {} }));
+
+import { Network } from '../network';
+import { JsonCodec } from '../codec/json';
+import { MessageDroppedError } from '../errors';
+import { OutboundItem } from '../outbound';
+import { RateLimiter, TokenBucket } from '../ratelimit';
+import { FakeSocket, fakeTransport } from './fakeSocket';
+
+/**
+ * 创建指定字节数的出站消息
+ */
+function item(name: string, session?: number, bytes: number = 1): OutboundItem {
+  return { name, data: new Uint8Array(bytes), session };
+}
+
+describe('TokenBucket', () => {
+  it('初始为满，消耗后按经过的时间补充，不超过容量', () => {
+    const bucket = new TokenBucket(2, 2);
+    expect(bucket.canTake(4, 1000)).toBe(true);
+    bucket.take(4);
+    expect(bucket.canTake(1, 1000)).toBe(false);
+
+    expect(bucket.canTake(1, 1499)).toBe(false);
+    expect(bucket.canTake(1, 1500)).toBe(true);
+
+    // 长时间空闲后最多补满容量
+    expect(bucket.canTake(4, 100000)).toBe(true);
+    bucket.take(4);
+    expect(bucket.canTake(1, 100000)).toBe(false);
+  });
+
+  it('单次消耗超过容量时桶满即可放行', () => {
+    const bucket = new TokenBucket(10);
+    expect(bucket.canTake(100, 1000)).toBe(true);
+    bucket.take(100);
+    // 透支的令牌需要先补回来
+    expect(bucket.canTake(100, 10000)).toBe(false);
+    expect(bucket.canTake(100, 11000)).toBe(true);
+  });
+});
+
+describe('RateLimiter', () => {
+  it('全局和协议限制都满足时才消耗令牌', () => {
+    const limiter = new RateLimiter({
+      global: { messagesPerSecond: 2 },
+      protocols: { 'role.move': { messagesPerSecond: 1 } }
+    });
+
+    expect(limiter.tryAcquire('role.move', 1, 1000)).toBe(true);
+    // 协议限制不满足时不消耗全局令牌
+    expect(limiter.tryAcquire('role.move', 1, 1000)).toBe(false);
+    expect(limiter.tryAcquire('role.info', 1, 1000)).toBe(true);
+    expect(limiter.tryAcquire('role.info', 1, 1000)).toBe(false);
+  });
+
+  it('按编码后的字节数限流', () => {
+    const limiter = new RateLimiter({ global: { bytesPerSecond: 100 } });
+    expect(limiter.tryAcquire('role.move', 60, 1000)).toBe(true);
+    expect(limiter.tryAcquire('role.move', 60, 1000)).toBe(false);
+    expect(limiter.tryAcquire('role.move', 40, 1000)).toBe(true);
+    expect(limiter.tryAcquire('role.move', 60, 1600)).toBe(true);
+  });
+
+  it('协议策略覆盖全局策略', () => {
+    const limiter = new RateLimiter({
+      policy: 'reject',
+      protocols: { 'role.move': { messagesPerSecond: 1, policy: 'coalesce' } }
+    });
+    expect(limiter.policyOf('role.move')).toBe('coalesce');
+    expect(limiter.policyOf('role.info')).toBe('reject');
+    expect(new RateLimiter({}).policyOf('role.info')).toBe('queue');
+  });
+
+  it('按协议分开排队，一个协议等待令牌时不挡住其它协议', () => {
+    const limiter = new RateLimiter({
+      protocols: {
+        'role.move': { messagesPerSecond: 1 },
+        'role.chat': { messagesPerSecond: 10 }
+      }
+    });
+    expect(limiter.tryAcquire('role.move', 1, 1000)).toBe(true);
+
+    const move1 = item('role.move', 1);
+    const move2 = item('role.move', 2);
+    const chat = item('role.chat', 3);
+    limiter.enqueue(move1);
+    limiter.enqueue(move2);
+    limiter.enqueue(chat);
+    expect(limiter.hasPending('role.move')).toBe(true);
+    expect(limiter.hasPending('role.info')).toBe(false);
+
+    expect(limiter.release(1000)).toEqual([chat]);
+    expect(limiter.hasPending('role.chat')).toBe(false);
+    expect(limiter.release(2000)).toEqual([move1]);
+    expect(limiter.release(3000)).toEqual([move2]);
+    expect(limiter.hasPending()).toBe(false);
+  });
+
+  it('排队数量达到 maxQueue 时拒绝入队', () => {
+    const limiter = new RateLimiter({ global: { messagesPerSecond: 1 }, maxQueue: 2 });
+    expect(limiter.enqueue(item('role.move', 1)).accepted).toBe(true);
+    expect(limiter.enqueue(item('role.chat', 2)).accepted).toBe(true);
+    expect(limiter.enqueue(item('role.info', 3))).toEqual({ accepted: false, dropped: [] });
+  });
+
+  it('coalesce 策略下新请求在原位置替换排队的请求', () => {
+    const limiter = new RateLimiter({
+      global: { messagesPerSecond: 1 },
+      protocols: { 'role.move': { policy: 'coalesce' } },
+      maxQueue: 2
+    });
+    const first = item('role.move', 1);
+    const chat = item('role.chat', 2);
+    const second = item('role.move', 3);
+    limiter.enqueue(first);
+    limiter.enqueue(chat);
+
+    // 替换不占用新的排队位置
+    expect(limiter.enqueue(second)).toEqual({ accepted: true, dropped: [first] });
+    expect(limiter.clear()).toEqual([second, chat]);
+  });
+
+  it('remove 移除指定会话的排队请求，释放排队位置', () => {
+    const limiter = new RateLimiter({ global: { messagesPerSecond: 1 }, maxQueue: 2 });
+    limiter.enqueue(item('role.move', 1));
+    limiter.enqueue(item('role.move', 2));
+    limiter.remove(1);
+    limiter.remove(9);
+
+    const chat = item('role.chat', 3);
+    expect(limiter.enqueue(chat).accepted).toBe(true);
+    limiter.remove(2);
+    expect(limiter.hasPending('role.move')).toBe(false);
+    expect(limiter.clear()).toEqual([chat]);
+    expect(limiter.hasPending()).toBe(false);
+  });
+});
+
+describe('Network 限流', () => {
+  let now: number;
+  let sockets: FakeSocket[];
+  let network: Network;
+
+  beforeEach(() => {
+    now = 1000000;
+    sockets = [];
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+
+    network = new Network(new JsonCodec(), 'base.package', {
+      rateLimit: {
+        protocols: {
+          'role.choose': { messagesPerSecond: 1, policy: 'coalesce' }
+        }
+      },
+      connection: { transport: fakeTransport(sockets) }
+    });
+    network.connect('ws://127.0.0.1:1248');
+    sockets[0].open();
+    network.update();
+    sockets[0].accept();
+    network.update();
+    expect(network.curState()).toBe('forward');
+  });
+
+  /**
+   * 握手之后发出的请求
+   */
+  function sentRequests(): any[] {
+    return sockets[0].sent.slice(1).map(frame => JSON.parse(new TextDecoder().decode(frame.subarray(2))));
+  }
+
+  /**
+   * 服务器回复指定会话
+   */
+  function reply(session: number, data: any): void {
+    sockets[0].receive(JSON.stringify({ type: 'response', session, data }));
+  }
+
+  it('coalesce 策略只让参数相同的调用方共享响应，参数不同的被替换调用以 coalesced 拒绝', async () => {
+    const first = network.call('role.choose', { rid: 1 });
+    const second = network.call('role.choose', { rid: 2 });
+    const third = network.call('role.choose', { rid: 3 });
+    const fourth = network.call('role.choose', { rid: 3 });
+
+    await expect(second).rejects.toBeInstanceOf(MessageDroppedError);
+    await expect(second).rejects.toMatchObject({ reason: 'coalesced' });
+
+    now += 1000;
+    network.update();
+    expect(sentRequests().map(request => request.data)).toEqual([{ rid: 1 }, { rid: 3 }]);
+
+    const [request1, request3] = sentRequests();
+    reply(request1.session, { ok: 1 });
+    reply(request3.session, { ok: 3 });
+    network.update();
+
+    await expect(first).resolves.toEqual({ ok: 1 });
+    await expect(third).resolves.toEqual({ ok: 3 });
+    await expect(fourth).resolves.toEqual({ ok: 3 });
+  });
+
+  it('被 invoke 替换的 call 以 coalesced 拒绝', async () => {
+    network.invoke('role.choose', { rid: 1 });
+    const pending = network.call('role.choose', { rid: 2 });
+    network.invoke('role.choose', { rid: 2 });
+
+    await expect(pending).rejects.toMatchObject({ reason: 'coalesced' });
+    now += 1000;
+    network.update();
+    expect(sentRequests().map(request => request.data)).toEqual([{ rid: 1 }, { rid: 2 }]);
+  });
+});
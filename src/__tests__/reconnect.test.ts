@@ -0,0 +1,197 @@
+/**
+ * 断线重连调度测试
+ *
+ * @jest-environment node
+ */
+
+jest.mock('../codec/sproto', () => ({ SprotoCodec: class {} }));
+
+import { Network } from '../network';
+import { JsonCodec } from '../codec/json';
+import { Reconnector } from '../reconnect';
+import { FakeSocket, fakeTransport } from './fakeSocket';
+
+describe('Reconnector', () => {
+  it('首次断线立即重连，之后按指数退避等待', () => {
+    const reconnector = new Reconnector({ initialDelay: 1000, factor: 2, jitter: 0, deadline: 0 });
+    expect(reconnector.getPhase()).toBe('idle');
+
+    expect(reconnector.onBreak(0)).toBe(true);
+    expect(reconnector.isDue(0)).toBe(true);
+
+    const expected = [1000, 2000, 4000];
+    let now = 0;
+    for (const delay of expected) {
+      reconnector.markAttempt();
+      expect(reconnector.getPhase()).toBe('attempting');
+      expect(reconnector.isDue(now)).toBe(false);
+
+      expect(reconnector.onBreak(now)).toBe(true);
+      expect(reconnector.getPhase()).toBe('waiting');
+      expect(reconnector.isDue(now + delay - 1)).toBe(false);
+      expect(reconnector.isDue(now + delay)).toBe(true);
+      now = now + delay;
+    }
+    expect(reconnector.getAttempts()).toBe(3);
+  });
+
+  it('等待时间不超过 maxDelay', () => {
+    const reconnector = new Reconnector({ initialDelay: 1000, maxDelay: 3000, jitter: 0, deadline: 0 });
+    reconnector.onBreak(0);
+    for (let i = 0; i < 5; i++) {
+      reconnector.markAttempt();
+      reconnector.retryLater(0);
+    }
+    expect(reconnector.isDue(2999)).toBe(false);
+    expect(reconnector.isDue(3000)).toBe(true);
+  });
+
+  it('抖动范围为 [1 - jitter, 1 + jitter] 倍', () => {
+    const reconnector = new Reconnector({ initialDelay: 1000, jitter: 0.5, deadline: 0 });
+    reconnector.onBreak(0);
+    reconnector.markAttempt();
+
+    jest.spyOn(Math, 'random').mockReturnValue(0);
+    reconnector.retryLater(0);
+    expect(reconnector.isDue(499)).toBe(false);
+    expect(reconnector.isDue(500)).toBe(true);
+
+    reconnector.markAttempt();
+    jest.spyOn(Math, 'random').mockReturnValue(0.999999);
+    reconnector.retryLater(0);
+    expect(reconnector.isDue(2999)).toBe(false);
+    expect(reconnector.isDue(3000)).toBe(true);
+  });
+
+  it('达到 maxAttempts 后放弃重连', () => {
+    const reconnector = new Reconnector({ maxAttempts: 2, jitter: 0, deadline: 0 });
+    reconnector.onBreak(0);
+    reconnector.markAttempt();
+    expect(reconnector.onBreak(0)).toBe(true);
+    reconnector.markAttempt();
+    expect(reconnector.onBreak(0)).toBe(false);
+    expect(reconnector.getPhase()).toBe('stopped');
+    expect(reconnector.onBreak(100000)).toBe(false);
+  });
+
+  it('maxAttempts 为 0 时不限次数', () => {
+    const reconnector = new Reconnector({ maxAttempts: 0, jitter: 0, deadline: 0 });
+    reconnector.onBreak(0);
+    for (let i = 0; i < 50; i++) {
+      reconnector.markAttempt();
+      expect(reconnector.retryLater(0)).toBe(true);
+    }
+  });
+
+  it('下一次重连会超出 deadline 时放弃', () => {
+    const reconnector = new Reconnector({ initialDelay: 1000, factor: 2, jitter: 0, deadline: 5000 });
+    reconnector.onBreak(0);
+    reconnector.markAttempt();
+    expect(reconnector.retryLater(1000)).toBe(true);
+    reconnector.markAttempt();
+    // 3000 + 2000 不超过 5000
+    expect(reconnector.retryLater(3000)).toBe(true);
+    reconnector.markAttempt();
+    // 4000 + 4000 超过 5000
+    expect(reconnector.retryLater(4000)).toBe(false);
+    expect(reconnector.getPhase()).toBe('stopped');
+  });
+
+  it('reset 后重新开始计数', () => {
+    const reconnector = new Reconnector({ maxAttempts: 1, deadline: 0 });
+    reconnector.onBreak(0);
+    reconnector.markAttempt();
+    expect(reconnector.onBreak(0)).toBe(false);
+
+    reconnector.reset();
+    expect(reconnector.getPhase()).toBe('idle');
+    expect(reconnector.getAttempts()).toBe(0);
+    expect(reconnector.onBreak(0)).toBe(true);
+    expect(reconnector.isDue(0)).toBe(true);
+  });
+});
+
+describe('Network 自动重连', () => {
+  let now: number;
+  let sockets: FakeSocket[];
+  let network: Network;
+  let attempts: number[];
+  let reasons: string[];
+
+  beforeEach(() => {
+    now = 1000000;
+    sockets = [];
+    attempts = [];
+    reasons = [];
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+
+    network = new Network(new JsonCodec(), 'base.package', {
+      reconnect: { initialDelay: 1000, jitter: 0, maxAttempts: 2, deadline: 0 },
+      connection: { transport: fakeTransport(sockets) }
+    });
+    network.on('reconnecting', ({ attempt }) => attempts.push(attempt));
+    network.on('disconnected', ({ reason }) => reasons.push(reason));
+    network.connect('ws://127.0.0.1:1248');
+    sockets[0].open();
+    network.update();
+    sockets[0].accept();
+    network.update();
+    expect(network.curState()).toBe('forward');
+  });
+
+  it('重连失败达到 maxAttempts 后放弃并拒绝未完成的请求', async () => {
+    const pending = network.call('role.info', {});
+    sockets[0].drop();
+    network.update();
+    expect(attempts).toEqual([1]);
+
+    sockets[1].drop();
+    network.update();
+    now += 1000;
+    network.update();
+    expect(attempts).toEqual([1, 2]);
+
+    sockets[2].drop();
+    network.update();
+    expect(reasons).toEqual(['connect_break', 'reconnect_failed']);
+    await expect(pending).rejects.toMatchObject({ reason: 'reconnect_failed' });
+
+    now += 100000;
+    network.update();
+    expect(sockets.length).toBe(3);
+  });
+
+  it('服务器拒绝重连时进入终止状态，不再重试', async () => {
+    const pending = network.call('role.info', {});
+    sockets[0].drop();
+    network.update();
+    sockets[1].open();
+    network.update();
+    sockets[1].receive('0\n403');
+    network.update();
+
+    expect(network.curState()).toBe('reconnect_error');
+    expect(network.update().status).toBe('reconnect_error');
+    expect(reasons).toEqual(['connect_break', 'reconnect_failed']);
+    await expect(pending).rejects.toMatchObject({ reason: 'reconnect_failed' });
+
+    now += 100000;
+    network.update();
+    expect(attempts).toEqual([1]);
+    expect(sockets.length).toBe(2);
+  });
+
+  it('重连成功后重新开始计数', () => {
+    sockets[0].drop();
+    network.update();
+    sockets[1].open();
+    network.update();
+    sockets[1].receive('0\n200');
+    network.update();
+    expect(network.curState()).toBe('forward');
+
+    sockets[1].drop();
+    network.update();
+    expect(attempts).toEqual([1, 1]);
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * Network 协议热更新测试
+ *
+ * @jest-environment node
+ */
+
+jest.mock('../codec/sproto', () => ({
+  SprotoCodec: class {
+    constructor() {
+      throw new Error('Invalid sproto schema');
+    }
+  }
+}));
+
+import { Network } from '../network';
+import { ProtobufCodec, ProtobufMessageType } from '../codec/protobuf';
+import { FakeSocket, fakeTransport } from './fakeSocket';
+
+/**
+ * 创建以字符串为消息体的消息类型，解码结果带上标记以区分协议版本
+ * @param tag 协议版本标记
+ */
+function textType(tag: string): ProtobufMessageType {
+  return {
+    encode: (message: string) => new TextEncoder().encode(String(message)),
+    decode: (data: Uint8Array) => `${tag}:${new TextDecoder().decode(data)}`
+  };
+}
+
+/**
+ * 创建只有一个协议的编解码器
+ * @param tag 协议版本标记
+ */
+function createCodec(tag: string): ProtobufCodec {
+  return new ProtobufCodec({
+    protocols: {
+      'role.info': { id: 1, request: textType(tag), response: textType(tag) }
+    }
+  });
+}
+
+describe('Network.reloadProtocol', () => {
+  let sockets: FakeSocket[];
+  let network: Network;
+
+  beforeEach(() => {
+    sockets = [];
+    network = new Network(createCodec('OLD'), 'base.package', {
+      connection: { transport: fakeTransport(sockets) }
+    });
+    network.connect('ws://127.0.0.1:1248');
+    sockets[0].open();
+    network.update();
+    sockets[0].accept();
+    network.update();
+    expect(network.curState()).toBe('forward');
+  });
+
+  /**
+   * 服务器回复指定会话
+   */
+  function reply(session: number, data: string): void {
+    const codec = createCodec('SERVER');
+    sockets[0].receive(codec.encodeResponse({ type: 'REQUEST', name: 'role.info', data: null, session }, data));
+  }
+
+  it('热更新前发出的请求按原协议解码响应', async () => {
+    const before = network.call('role.info', 'a');
+    network.reloadProtocol(createCodec('NEW'));
+    const after = network.call('role.info', 'b');
+
+    reply(0, 'x');
+    reply(1, 'y');
+    network.update();
+
+    await expect(before).resolves.toBe('OLD:x');
+    await expect(after).resolves.toBe('NEW:y');
+  });
+
+  it('旧协议的会话全部完成后不再保留旧编解码器', async () => {
+    const before = network.call('role.info', 'a');
+    network.reloadProtocol(createCodec('MID'));
+    network.reloadProtocol(createCodec('NEW'));
+
+    reply(0, 'x');
+    network.update();
+    await expect(before).resolves.toBe('OLD:x');
+
+    const after = network.call('role.info', 'b');
+    reply(1, 'y');
+    network.update();
+    await expect(after).resolves.toBe('NEW:y');
+  });
+
+  it('新协议加载失败时保留原协议', async () => {
+    expect(() => network.reloadProtocol(new Uint8Array([1, 2, 3]))).toThrow('Invalid sproto schema');
+
+    const pending = network.call('role.info', 'a');
+    reply(0, 'x');
+    network.update();
+    await expect(pending).resolves.toBe('OLD:x');
+  });
+});
@@ -0,0 +1,56 @@
+/**
+ * 会话索引分配器测试
+ */
+
+import { SessionAllocator } from '../session';
+
+describe('SessionAllocator', () => {
+  it('按顺序分配并在 maxIndex 之后回到 0', () => {
+    const allocator = new SessionAllocator({ maxIndex: 2 });
+    const inUse = new Map<number, unknown>();
+
+    expect(allocator.allocate(inUse)).toBe(0);
+    expect(allocator.allocate(inUse)).toBe(1);
+    expect(allocator.allocate(inUse)).toBe(2);
+    expect(allocator.allocate(inUse)).toBe(0);
+  });
+
+  it('跳过仍在使用中的索引', () => {
+    const allocator = new SessionAllocator({ maxIndex: 4 });
+    const inUse = new Map<number, unknown>([[0, true], [1, true], [3, true]]);
+
+    expect(allocator.allocate(inUse)).toBe(2);
+    inUse.set(2, true);
+    expect(allocator.allocate(inUse)).toBe(4);
+    inUse.set(4, true);
+    inUse.delete(1);
+    // 回绕后跳过仍在使用的 0
+    expect(allocator.allocate(inUse)).toBe(1);
+  });
+
+  it('索引全部占用时返回 null', () => {
+    const allocator = new SessionAllocator({ maxIndex: 1 });
+    const inUse = new Map<number, unknown>([[0, true], [1, true]]);
+
+    expect(allocator.allocate(inUse)).toBeNull();
+    expect(allocator.limit()).toBe(2);
+  });
+
+  it('达到 maxConcurrent 时返回 null', () => {
+    const allocator = new SessionAllocator({ maxConcurrent: 2 });
+    const inUse = new Map<number, unknown>();
+
+    inUse.set(allocator.allocate(inUse) as number, true);
+    inUse.set(allocator.allocate(inUse) as number, true);
+    expect(allocator.allocate(inUse)).toBeNull();
+    expect(allocator.limit()).toBe(2);
+
+    inUse.delete(0);
+    expect(allocator.allocate(inUse)).toBe(2);
+  });
+
+  it('拒绝无效的 maxIndex', () => {
+    expect(() => new SessionAllocator({ maxIndex: -1 })).toThrow('Invalid maxIndex');
+    expect(() => new SessionAllocator({ maxIndex: 1.5 })).toThrow('Invalid maxIndex');
+  });
+});
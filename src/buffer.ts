@@ -7,40 +7,6 @@
  * - 大端/小端字节序支持
  */
 
-function hexdump(buffer: ArrayBuffer) {
-    const bytes = new Uint8Array(buffer);
-    let hex = '';
-    let ascii = '';
-    
-    for (let i = 0; i < bytes.length; i++) {
-        // 每16字节换行
-        if (i % 16 === 0) {
-            if (i !== 0) {
-                hex += ' ' + ascii + '\n';
-                ascii = '';
-            }
-            // 打印偏移地址
-            hex += i.toString(16).padStart(8, '0') + ': ';
-        }
-        
-        // 转换为16进制
-        hex += bytes[i].toString(16).padStart(2, '0') + ' ';
-        
-        // 生成ASCII部分
-        ascii += (bytes[i] >= 32 && bytes[i] <= 126) ? 
-                 String.fromCharCode(bytes[i]) : '.';
-    }
-    
-    // 处理最后一行
-    while (ascii.length < 16) {
-        hex += '   ';
-        ascii += ' ';
-    }
-    hex += ' ' + ascii;
-    
-    return hex;
-}
-
 export const endianFormat = {
   "little": "<",
   "big": ">"
@@ -80,10 +46,6 @@ export class Buffer {
       offset += arr.length;
     }
     this.data = [];
-
-  console.log("popAll", result.length);
-  console.log(hexdump(result.buffer));
-    
     return result;
   }
 
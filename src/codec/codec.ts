@@ -0,0 +1,92 @@
+/**
+ * 编解码器接口
+ *
+ * Network 通过编解码器编码发出的请求和回复、解码收到的消息，
+ * 会话管理、超时、重连等 RPC 机制与具体的协议格式无关
+ */
+
+/**
+ * 解码后的服务器请求
+ */
+export interface DecodedRequest {
+  type: 'REQUEST';
+  /** 协议名称 */
+  name: string;
+  /** 请求数据 */
+  data: any;
+  /** 服务器请求的会话索引，不需要回复时为空 */
+  session?: number;
+}
+
+/**
+ * 解码后的响应
+ */
+export interface DecodedResponse {
+  type: 'RESPONSE';
+  /** 对应请求的会话索引 */
+  session: number;
+  /** 响应数据 */
+  data: any;
+}
+
+/**
+ * 解码后的消息
+ */
+export type DecodedMessage = DecodedRequest | DecodedResponse;
+
+/**
+ * 根据会话索引查询请求的协议名称，会话不存在时返回 undefined
+ */
+export type SessionLookup = (session: number) => string | undefined;
+
+/**
+ * 编解码器接口
+ */
+export interface Codec {
+  /**
+   * 协议校验码，用于与服务器比对协议版本
+   * @returns 校验码
+   */
+  checksum(): string;
+
+  /**
+   * 编码发出的请求
+   * @param name 协议名称
+   * @param data 请求数据
+   * @param session 会话索引，invoke 发出的请求没有会话
+   * @returns 编码后的消息
+   */
+  encodeRequest(name: string, data: any, session?: number): Uint8Array;
+
+  /**
+   * 编码对服务器请求的回复
+   * @param request 解码得到的服务器请求
+   * @param data 回复数据
+   * @returns 编码后的消息
+   */
+  encodeResponse(request: DecodedRequest, data: any): Uint8Array;
+
+  /**
+   * 解码收到的消息
+   * @param message 消息数据
+   * @param lookup 查询会话对应的协议名称，响应中不带协议信息的格式据此选择响应类型
+   * @returns 解码结果，无法识别时返回 null
+   */
+  decode(message: Uint8Array, lookup: SessionLookup): DecodedMessage | null;
+
+  /**
+   * 协议是否定义了响应，服务器请求只有带会话且协议定义了响应时才回复
+   * @param name 协议名称
+   * @returns 是否需要回复
+   */
+  hasResponse(name: string): boolean;
+}
+
+/**
+ * 将字节数组转换为 Uint8Array
+ * @param data 字节数组
+ * @returns Uint8Array
+ */
+export function toBytes(data: ArrayLike<number>): Uint8Array {
+  return data instanceof Uint8Array ? data : new Uint8Array(data);
+}
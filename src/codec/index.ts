@@ -0,0 +1,13 @@
+/**
+ * 编解码器
+ *
+ * Network 默认使用 SprotoCodec，也可以传入 JsonCodec、ProtobufCodec 或自定义的 Codec 实现
+ */
+
+export { toBytes } from './codec';
+export type { Codec, DecodedMessage, DecodedRequest, DecodedResponse, SessionLookup } from './codec';
+export { SprotoCodec } from './sproto';
+export { JsonCodec } from './json';
+export type { JsonCodecOptions } from './json';
+export { ProtobufCodec } from './protobuf';
+export type { ProtobufCodecOptions, ProtobufProtocol, ProtobufMessageType } from './protobuf';
@@ -0,0 +1,75 @@
+/**
+ * JsonCodec - JSON 编解码器
+ *
+ * 消息为 UTF-8 编码的 JSON 文本：
+ *   请求: {"type":"request","name":"tool.query","session":1,"data":{...}}
+ *   响应: {"type":"response","session":1,"data":{...}}
+ * invoke 发出的请求和不需要回复的服务器请求不带 session
+ */
+
+import { Codec, DecodedMessage, DecodedRequest } from './codec';
+
+/**
+ * JSON 编解码器配置项接口
+ */
+export interface JsonCodecOptions {
+  /** 没有响应的协议名称，收到这些协议的服务器请求时不回复 */
+  oneway?: string[];
+  /** 协议校验码，默认为空字符串 */
+  checksum?: string;
+}
+
+/**
+ * JSON 编解码器类
+ */
+export class JsonCodec implements Codec {
+  private oneway: Set<string>;
+  private checksumValue: string;
+  private encoder: TextEncoder = new TextEncoder();
+  private decoder: TextDecoder = new TextDecoder('utf-8');
+
+  /**
+   * 创建 JSON 编解码器
+   * @param options 配置项
+   */
+  constructor(options: JsonCodecOptions = {}) {
+    this.oneway = new Set(options.oneway || []);
+    this.checksumValue = options.checksum || "";
+  }
+
+  checksum(): string {
+    return this.checksumValue;
+  }
+
+  encodeRequest(name: string, data: any, session?: number): Uint8Array {
+    return this.encoder.encode(JSON.stringify({ type: 'request', name, session, data }));
+  }
+
+  encodeResponse(request: DecodedRequest, data: any): Uint8Array {
+    return this.encoder.encode(JSON.stringify({ type: 'response', session: request.session, data }));
+  }
+
+  decode(message: Uint8Array): DecodedMessage | null {
+    const value = JSON.parse(this.decoder.decode(message));
+    if (!value || typeof value !== 'object') {
+      return null;
+    }
+
+    if (value.type === 'response' && typeof value.session === 'number') {
+      return { type: 'RESPONSE', session: value.session, data: value.data };
+    }
+    if (value.type === 'request' && typeof value.name === 'string') {
+      return {
+        type: 'REQUEST',
+        name: value.name,
+        data: value.data,
+        session: typeof value.session === 'number' ? value.session : undefined
+      };
+    }
+    return null;
+  }
+
+  hasResponse(name: string): boolean {
+    return !this.oneway.has(name);
+  }
+}
@@ -0,0 +1,273 @@
+/**
+ * ProtobufCodec - protobuf 风格编解码器
+ *
+ * 每条消息是一个 protobuf 编码的信封：
+ *   message Envelope {
+ *     uint32 type = 1;     // 0 请求，1 响应
+ *     uint32 protocol = 2; // 协议号，仅请求带
+ *     uint64 session = 3;  // 会话索引，不需要回复的请求不带
+ *     bytes payload = 4;   // 请求或响应消息
+ *   }
+ * 消息体由调用方提供的消息类型编解码（如 protobufjs 生成的类型），
+ * 响应不带协议号，按会话索引查到对应请求的协议后选择响应类型。
+ * 与 proto3 一致，解码时缺省的 type、protocol 和响应的 session 按 0 处理，
+ * 兼容省略零值字段的编码器。
+ */
+
+import { Codec, DecodedMessage, DecodedRequest, SessionLookup } from './codec';
+
+/**
+ * 消息类型接口
+ * protobufjs 生成的类型可以这样适配：{ encode: m => T.encode(m).finish(), decode: b => T.decode(b) }
+ */
+export interface ProtobufMessageType {
+  encode(message: any): Uint8Array;
+  decode(data: Uint8Array): any;
+}
+
+/**
+ * 协议定义接口
+ */
+export interface ProtobufProtocol {
+  /** 协议号 */
+  id: number;
+  /** 请求消息类型，没有请求数据时为空 */
+  request?: ProtobufMessageType;
+  /** 响应消息类型，没有响应时为空 */
+  response?: ProtobufMessageType;
+}
+
+/**
+ * protobuf 编解码器配置项接口
+ */
+export interface ProtobufCodecOptions {
+  /** 协议名称到协议定义的映射 */
+  protocols: { [name: string]: ProtobufProtocol };
+  /** 协议校验码，默认为空字符串 */
+  checksum?: string;
+}
+
+const TYPE_REQUEST = 0;
+const TYPE_RESPONSE = 1;
+
+const WIRE_VARINT = 0;
+const WIRE_FIXED64 = 1;
+const WIRE_BYTES = 2;
+const WIRE_FIXED32 = 5;
+
+const FIELD_TYPE = 1;
+const FIELD_PROTOCOL = 2;
+const FIELD_SESSION = 3;
+const FIELD_PAYLOAD = 4;
+
+/**
+ * 解码后的信封
+ */
+interface Envelope {
+  type: number;
+  protocol?: number;
+  session?: number;
+  payload?: Uint8Array;
+}
+
+/**
+ * 写入 varint
+ * @param out 输出字节数组
+ * @param value 非负整数
+ */
+function writeVarint(out: number[], value: number): void {
+  while (value > 0x7f) {
+    out.push((value % 0x80) | 0x80);
+    value = Math.floor(value / 0x80);
+  }
+  out.push(value);
+}
+
+/**
+ * 编码信封
+ * @param envelope 信封
+ * @returns 编码后的消息
+ */
+function encodeEnvelope(envelope: Envelope): Uint8Array {
+  const head: number[] = [];
+  writeVarint(head, (FIELD_TYPE << 3) | WIRE_VARINT);
+  writeVarint(head, envelope.type);
+  if (envelope.protocol !== undefined) {
+    writeVarint(head, (FIELD_PROTOCOL << 3) | WIRE_VARINT);
+    writeVarint(head, envelope.protocol);
+  }
+  if (envelope.session !== undefined) {
+    writeVarint(head, (FIELD_SESSION << 3) | WIRE_VARINT);
+    writeVarint(head, envelope.session);
+  }
+
+  const payload = envelope.payload;
+  if (payload) {
+    writeVarint(head, (FIELD_PAYLOAD << 3) | WIRE_BYTES);
+    writeVarint(head, payload.length);
+  }
+
+  const result = new Uint8Array(head.length + (payload ? payload.length : 0));
+  result.set(head, 0);
+  if (payload) {
+    result.set(payload, head.length);
+  }
+  return result;
+}
+
+/**
+ * 解码信封，跳过未知字段
+ * 不支持已废弃的 group 编码（wire type 3/4）
+ * @param data 消息数据
+ * @returns 信封
+ */
+function decodeEnvelope(data: Uint8Array): Envelope {
+  let pos = 0;
+  const readVarint = (): number => {
+    let value = 0;
+    let scale = 1;
+    while (true) {
+      if (pos >= data.length) {
+        throw new Error('Truncated protobuf varint');
+      }
+      const byte = data[pos++];
+      value = value + (byte & 0x7f) * scale;
+      if ((byte & 0x80) === 0) {
+        return value;
+      }
+      scale = scale * 0x80;
+    }
+  };
+
+  const envelope: Envelope = { type: TYPE_REQUEST };
+  while (pos < data.length) {
+    const tag = readVarint();
+    const field = Math.floor(tag / 8);
+    const wire = tag % 8;
+
+    if (wire === WIRE_VARINT) {
+      const value = readVarint();
+      if (field === FIELD_TYPE) {
+        envelope.type = value;
+      } else if (field === FIELD_PROTOCOL) {
+        envelope.protocol = value;
+      } else if (field === FIELD_SESSION) {
+        envelope.session = value;
+      }
+    } else if (wire === WIRE_BYTES) {
+      const length = readVarint();
+      if (pos + length > data.length) {
+        throw new Error('Truncated protobuf field');
+      }
+      if (field === FIELD_PAYLOAD) {
+        envelope.payload = data.subarray(pos, pos + length);
+      }
+      pos = pos + length;
+    } else if (wire === WIRE_FIXED64 || wire === WIRE_FIXED32) {
+      const length = wire === WIRE_FIXED64 ? 8 : 4;
+      if (pos + length > data.length) {
+        throw new Error('Truncated protobuf field');
+      }
+      pos = pos + length;
+    } else {
+      throw new Error(`Unsupported protobuf wire type ${wire}`);
+    }
+  }
+  return envelope;
+}
+
+/**
+ * protobuf 编解码器类
+ */
+export class ProtobufCodec implements Codec {
+  private protocols: { [name: string]: ProtobufProtocol };
+  private names: Map<number, string> = new Map();
+  private checksumValue: string;
+
+  /**
+   * 创建 protobuf 编解码器
+   * @param options 配置项
+   */
+  constructor(options: ProtobufCodecOptions) {
+    this.protocols = options.protocols;
+    this.checksumValue = options.checksum || "";
+    for (const name of Object.keys(options.protocols)) {
+      const id = options.protocols[name].id;
+      if (this.names.has(id)) {
+        throw new Error(`Duplicate protocol id ${id}: ${this.names.get(id)} and ${name}`);
+      }
+      this.names.set(id, name);
+    }
+  }
+
+  checksum(): string {
+    return this.checksumValue;
+  }
+
+  encodeRequest(name: string, data: any, session?: number): Uint8Array {
+    const protocol = this.protocolOf(name);
+    return encodeEnvelope({
+      type: TYPE_REQUEST,
+      protocol: protocol.id,
+      session,
+      payload: protocol.request ? protocol.request.encode(data || {}) : undefined
+    });
+  }
+
+  encodeResponse(request: DecodedRequest, data: any): Uint8Array {
+    const protocol = this.protocolOf(request.name);
+    return encodeEnvelope({
+      type: TYPE_RESPONSE,
+      session: request.session,
+      payload: protocol.response ? protocol.response.encode(data || {}) : undefined
+    });
+  }
+
+  decode(message: Uint8Array, lookup: SessionLookup): DecodedMessage | null {
+    const envelope = decodeEnvelope(message);
+    const payload = envelope.payload || new Uint8Array(0);
+
+    if (envelope.type === TYPE_RESPONSE) {
+      // 会话 0 的响应可能省略 session 字段
+      const session = envelope.session ?? 0;
+      const name = lookup(session);
+      const protocol = name !== undefined ? this.protocols[name] : undefined;
+      // 会话已结束时无法确定响应类型，交给调用方按迟到的响应忽略
+      const data = protocol && protocol.response ? protocol.response.decode(payload) : undefined;
+      return { type: 'RESPONSE', session, data };
+    }
+
+    if (envelope.type === TYPE_REQUEST) {
+      const name = this.names.get(envelope.protocol ?? 0);
+      if (name === undefined) {
+        return null;
+      }
+      const protocol = this.protocols[name];
+      return {
+        type: 'REQUEST',
+        name,
+        data: protocol.request ? protocol.request.decode(payload) : undefined,
+        session: envelope.session
+      };
+    }
+    return null;
+  }
+
+  hasResponse(name: string): boolean {
+    const protocol = this.protocols[name];
+    return !!protocol && !!protocol.response;
+  }
+
+  /**
+   * 获取协议定义
+   * @param name 协议名称
+   * @returns 协议定义
+   */
+  private protocolOf(name: string): ProtobufProtocol {
+    const protocol = this.protocols[name];
+    if (!protocol) {
+      throw new Error(`Unknown protocol: ${name}`);
+    }
+    return protocol;
+  }
+}
@@ -0,0 +1,111 @@
+/**
+ * SprotoCodec - sproto 编解码器，Network 的默认编解码器
+ */
+
+import sproto from '@imhanxi/sproto-js';
+import { CryptUtils } from '../crypto';
+import { Codec, DecodedMessage, DecodedRequest, toBytes } from './codec';
+
+/**
+ * sproto 响应打包函数类型，由 host.dispatch 针对带会话的请求生成
+ */
+type ResponsePacker = (args: any, ud?: any) => ArrayLike<number>;
+
+/**
+ * sproto 编解码器类
+ * 每个实例拥有独立的 sproto host，host 记录自己发出的请求会话，响应必须由同一个实例解码
+ */
+export class SprotoCodec implements Codec {
+  private sp: any;
+  private host: any;
+  private request: (name: string, args?: any, session?: number) => ArrayLike<number>;
+  private packers: WeakMap<DecodedRequest, ResponsePacker> = new WeakMap();
+  private checksumValue: string;
+
+  /**
+   * 创建 sproto 编解码器
+   * @param protocolBuffer 协议二进制数据
+   * @param packageName 包名，默认为 "base.package"
+   */
+  constructor(protocolBuffer: Uint8Array, packageName: string = "base.package") {
+    // 创建 sproto 实例
+    this.sp = sproto.createNew(Array.from(protocolBuffer));
+    if (!this.sp) {
+      throw new Error('Failed to create sproto instance');
+    }
+
+    // 创建 host
+    this.host = this.sp.host(packageName);
+    if (!this.host) {
+      throw new Error('Failed to create sproto host');
+    }
+
+    // 创建 attach 函数
+    this.request = this.host.attach(this.sp);
+    if (!this.request) {
+      throw new Error('Failed to create sproto attach function');
+    }
+
+    const hashBytes = CryptUtils.md5(protocolBuffer);
+    this.checksumValue = Array.from(hashBytes, byte => byte.toString(16).padStart(2, '0')).join('');
+  }
+
+  /**
+   * 协议校验码，为协议二进制数据的 MD5 十六进制字符串
+   * @returns 校验码
+   */
+  checksum(): string {
+    return this.checksumValue;
+  }
+
+  encodeRequest(name: string, data: any, session?: number): Uint8Array {
+    return toBytes(this.request(name, data, session));
+  }
+
+  encodeResponse(request: DecodedRequest, data: any): Uint8Array {
+    const packer = this.packers.get(request);
+    if (!packer) {
+      throw new Error(`No response expected for ${request.name}`);
+    }
+    return toBytes(packer(data));
+  }
+
+  decode(message: Uint8Array): DecodedMessage | null {
+    const result = this.host.dispatch(Array.from(message));
+    if (!result) {
+      return null;
+    }
+
+    if (result.type === "RESPONSE") {
+      return {
+        type: 'RESPONSE',
+        session: result.session || 0,
+        data: result.result || result
+      };
+    }
+
+    if (result.type === "REQUEST") {
+      const name = result.pname || result.name;
+      if (!name) {
+        return null;
+      }
+      const request: DecodedRequest = {
+        type: 'REQUEST',
+        name,
+        data: result.result || result.data,
+        session: result.session
+      };
+      if (result.responseFunc) {
+        this.packers.set(request, result.responseFunc);
+      }
+      return request;
+    }
+
+    return null;
+  }
+
+  hasResponse(name: string): boolean {
+    const proto = this.sp.queryproto(name);
+    return !!proto && !!proto.response;
+  }
+}
@@ -0,0 +1,96 @@
+/**
+ * TypeScript 类型生成器
+ *
+ * 根据 sproto 协议定义生成请求/响应接口和协议映射表，
+ * 协议映射表作为 Network 的类型参数使用，使 call/register/on 获得完整的类型检查
+ */
+
+import { SprotoSchema, SprotoField, SprotoProtocol } from './parser';
+
+/**
+ * 生成配置项接口
+ */
+export interface GenerateOptions {
+  /** 协议映射表接口名，默认为 "Protocols" */
+  mapName?: string;
+  /** 文件头注释 */
+  header?: string;
+}
+
+/** sproto 内置类型到 TypeScript 类型的映射 */
+const BUILTIN_TS_TYPES: { [key: string]: string } = {
+  integer: "number",
+  double: "number",
+  string: "string",
+  binary: "string",
+  boolean: "boolean"
+};
+
+const DEF_HEADER = "/* 此文件由 sproto 类型生成器自动生成，请勿手动修改 */";
+
+/**
+ * 将 sproto 完整名称转换为 TypeScript 接口名，如 login.login_role_info -> LoginLoginRoleInfo
+ * @param name sproto 完整名称
+ * @returns 接口名
+ */
+export function toInterfaceName(name: string): string {
+  return name
+    .split(/[._]/)
+    .filter(part => part.length > 0)
+    .map(part => part[0].toUpperCase() + part.slice(1))
+    .join("");
+}
+
+/**
+ * 生成字段的 TypeScript 类型
+ * @param field 字段定义
+ * @returns 类型表达式
+ */
+function fieldType(field: SprotoField): string {
+  const base = BUILTIN_TS_TYPES[field.type] || toInterfaceName(field.type);
+  return field.array ? `${base}[]` : base;
+}
+
+/**
+ * 生成协议在映射表中的条目
+ * @param protocol 协议定义
+ * @returns 映射表条目
+ */
+function protocolEntry(protocol: SprotoProtocol): string {
+  const request = protocol.request ? toInterfaceName(protocol.request) : "undefined";
+  const response = protocol.response ? toInterfaceName(protocol.response) : "undefined";
+  return `  "${protocol.name}": { request: ${request}; response: ${response} };`;
+}
+
+/**
+ * 根据协议定义生成 TypeScript 源码
+ * @param schema 协议定义
+ * @param options 生成配置项
+ * @returns TypeScript 源码
+ */
+export function generateTypes(schema: SprotoSchema, options: GenerateOptions = {}): string {
+  const mapName = options.mapName || "Protocols";
+  const lines: string[] = [options.header || DEF_HEADER, ""];
+
+  for (const type of schema.types) {
+    lines.push(`/** ${type.name} */`);
+    lines.push(`export interface ${toInterfaceName(type.name)} {`);
+    for (const field of type.fields) {
+      // sproto 的字段均可缺省
+      const note = field.array && field.extra ? ` /** 主键 ${field.extra} */` : "";
+      lines.push(`  ${field.name}?: ${fieldType(field)};${note}`);
+    }
+    lines.push("}");
+    lines.push("");
+  }
+
+  lines.push("/** 协议映射表，用作 Network 的类型参数 */");
+  lines.push(`export interface ${mapName} {`);
+  for (const protocol of schema.protocols) {
+    lines.push(protocolEntry(protocol));
+  }
+  lines.push("}");
+  lines.push("");
+
+  return lines.join("\n");
+}
@@ -0,0 +1,33 @@
+/**
+ * sproto 类型生成器
+ *
+ * 从 .sproto 协议文本生成 TypeScript 类型定义，命令行入口见 scripts/gen-proto.ts
+ */
+
+import { parseSproto } from './parser';
+import { generateTypes, GenerateOptions } from './generator';
+
+export { SprotoParser, parseSproto, BUILTIN_TYPES } from './parser';
+export type { SprotoSchema, SprotoType, SprotoField, SprotoProtocol } from './parser';
+export { generateTypes, toInterfaceName } from './generator';
+export type { GenerateOptions } from './generator';
+
+/**
+ * 协议源文件接口
+ */
+export interface SprotoSource {
+  /** 名称前缀，通常为文件名（不含扩展名），如 login.sproto 为 login */
+  prefix: string;
+  /** 协议文本 */
+  content: string;
+}
+
+/**
+ * 解析协议源文件并生成 TypeScript 源码
+ * @param sources 协议源文件列表
+ * @param options 生成配置项
+ * @returns TypeScript 源码
+ */
+export function generate(sources: SprotoSource[], options: GenerateOptions = {}): string {
+  return generateTypes(parseSproto(sources), options);
+}
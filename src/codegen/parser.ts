@@ -0,0 +1,309 @@
+/**
+ * sproto 协议文本解析器
+ *
+ * 将 .sproto 文件解析为类型定义和协议定义，
+ * 类型名和协议名按 sprotodump 的规则以文件名作为前缀（如 login.sproto 中的 login 协议为 login.login）
+ */
+
+/**
+ * 字段定义
+ */
+export interface SprotoField {
+  name: string;
+  tag: number;
+  /** 类型名：内置类型或自定义类型的完整名称 */
+  type: string;
+  /** 是否为数组（*type） */
+  array: boolean;
+  /** 数组主键字段名或整数精度，如 *role(rid) 或 integer(2) */
+  extra?: string;
+}
+
+/**
+ * 自定义类型定义
+ */
+export interface SprotoType {
+  /** 完整名称，如 login.context */
+  name: string;
+  fields: SprotoField[];
+}
+
+/**
+ * 协议定义
+ */
+export interface SprotoProtocol {
+  /** 完整名称，如 login.login */
+  name: string;
+  tag: number;
+  /** 请求类型的完整名称 */
+  request?: string;
+  /** 响应类型的完整名称 */
+  response?: string;
+  /** 是否声明了 response nil */
+  confirm: boolean;
+}
+
+/**
+ * 协议文件解析结果
+ */
+export interface SprotoSchema {
+  types: SprotoType[];
+  protocols: SprotoProtocol[];
+}
+
+/** sproto 内置类型 */
+export const BUILTIN_TYPES = ["integer", "string", "boolean", "double", "binary"];
+
+/**
+ * 词法单元
+ */
+interface Token {
+  value: string;
+  line: number;
+}
+
+/**
+ * 待解析的类型引用，所有文件解析完成后统一解析为完整名称
+ */
+interface PendingRef {
+  /** 引用的类型名 */
+  ref: string;
+  /** 引用所在的作用域，由内到外 */
+  scopes: string[];
+  /** 写回完整类型名 */
+  resolve: (name: string) => void;
+}
+
+/**
+ * 词法分析
+ * @param content 协议文本
+ * @returns 词法单元列表
+ */
+function tokenize(content: string): Token[] {
+  const tokens: Token[] = [];
+  const pattern = /#[^\n]*|\n|[ \t\r]+|[A-Za-z_][A-Za-z0-9_.]*|\d+|[{}:*().]/g;
+  let line = 1;
+  let match: RegExpExecArray | null;
+  let offset = 0;
+
+  while ((match = pattern.exec(content)) !== null) {
+    if (match.index !== offset) {
+      throw new Error(`Unexpected character '${content[offset]}' at line ${line}`);
+    }
+    offset = pattern.lastIndex;
+
+    const value = match[0];
+    if (value === "\n") {
+      line = line + 1;
+    } else if (value[0] !== "#" && value.trim() !== "") {
+      tokens.push({ value, line });
+    }
+  }
+
+  if (offset !== content.length) {
+    throw new Error(`Unexpected character '${content[offset]}' at line ${line}`);
+  }
+  return tokens;
+}
+
+/**
+ * sproto 协议解析器
+ * 可以依次解析多个文件，最后统一解析跨文件的类型引用
+ */
+export class SprotoParser {
+  private types: SprotoType[] = [];
+  private protocols: SprotoProtocol[] = [];
+  private pending: PendingRef[] = [];
+
+  private tokens: Token[] = [];
+  private pos: number = 0;
+  private file: string = "";
+
+  /**
+   * 解析单个协议文件
+   * @param content 协议文本
+   * @param prefix 名称前缀，通常为文件名（不含扩展名）
+   */
+  parse(content: string, prefix: string): void {
+    this.tokens = tokenize(content);
+    this.pos = 0;
+    this.file = prefix;
+
+    while (this.pos < this.tokens.length) {
+      if (this.peek() === ".") {
+        this.next();
+        this.parseType(prefix, [prefix]);
+      } else {
+        this.parseProtocol(prefix);
+      }
+    }
+  }
+
+  /**
+   * 解析所有类型引用并返回解析结果
+   * @returns 协议定义
+   */
+  finish(): SprotoSchema {
+    const known = new Set(this.types.map(type => type.name));
+
+    for (const { ref, scopes, resolve } of this.pending) {
+      const candidates = scopes.map(scope => `${scope}.${ref}`);
+      candidates.push(ref);
+
+      const resolved = candidates.find(name => known.has(name));
+      if (!resolved) {
+        throw new Error(`Undefined type '${ref}' in ${scopes[0]}`);
+      }
+      resolve(resolved);
+    }
+    this.pending = [];
+
+    return {
+      types: this.types,
+      protocols: this.protocols
+    };
+  }
+
+  private peek(): string | undefined {
+    const token = this.tokens[this.pos];
+    return token ? token.value : undefined;
+  }
+
+  private next(): string {
+    const token = this.tokens[this.pos];
+    if (!token) {
+      throw new Error(`Unexpected end of file in ${this.file}`);
+    }
+    this.pos = this.pos + 1;
+    return token.value;
+  }
+
+  private expect(value: string): void {
+    const line = this.line();
+    const token = this.next();
+    if (token !== value) {
+      throw new Error(`Expected '${value}' but got '${token}' at ${this.file}:${line}`);
+    }
+  }
+
+  private line(): number {
+    const token = this.tokens[this.pos] || this.tokens[this.tokens.length - 1];
+    return token ? token.line : 0;
+  }
+
+  private parseTag(): number {
+    const line = this.line();
+    const token = this.next();
+    if (!/^\d+$/.test(token)) {
+      throw new Error(`Invalid tag '${token}' at ${this.file}:${line}`);
+    }
+    return parseInt(token, 10);
+  }
+
+  /**
+   * 解析自定义类型：.name { fields }
+   * @param parent 外层名称
+   * @param scopes 外层作用域，由内到外
+   */
+  private parseType(parent: string, scopes: string[]): void {
+    const name = `${parent}.${this.next()}`;
+    this.parseStruct(name, scopes);
+  }
+
+  /**
+   * 解析结构体内容：{ fields 和嵌套类型 }
+   * @param name 结构体完整名称
+   * @param scopes 外层作用域，由内到外
+   */
+  private parseStruct(name: string, scopes: string[]): void {
+    const type: SprotoType = { name, fields: [] };
+    const innerScopes = [name, ...scopes];
+    this.types.push(type);
+
+    this.expect("{");
+    while (this.peek() !== "}") {
+      if (this.peek() === ".") {
+        this.next();
+        this.parseType(name, innerScopes);
+      } else {
+        type.fields.push(this.parseField(innerScopes));
+      }
+    }
+    this.expect("}");
+  }
+
+  /**
+   * 解析字段：name tag : [*]type[(extra)]
+   * @param scopes 字段所在作用域，由内到外
+   * @returns 字段定义
+   */
+  private parseField(scopes: string[]): SprotoField {
+    const name = this.next();
+    const tag = this.parseTag();
+    this.expect(":");
+
+    let array = false;
+    if (this.peek() === "*") {
+      this.next();
+      array = true;
+    }
+
+    const field: SprotoField = { name, tag, type: this.next(), array };
+    if (this.peek() === "(") {
+      this.next();
+      field.extra = this.peek() === ")" ? "" : this.next();
+      this.expect(")");
+    }
+
+    if (BUILTIN_TYPES.indexOf(field.type) === -1) {
+      this.pending.push({ ref: field.type, scopes, resolve: (resolved) => { field.type = resolved; } });
+    }
+    return field;
+  }
+
+  /**
+   * 解析协议：name tag { request ... response ... }
+   * @param prefix 名称前缀
+   */
+  private parseProtocol(prefix: string): void {
+    const name = `${prefix}.${this.next()}`;
+    const protocol: SprotoProtocol = { name, tag: this.parseTag(), confirm: false };
+    this.protocols.push(protocol);
+
+    this.expect("{");
+    while (this.peek() !== "}") {
+      const line = this.line();
+      const kind = this.next();
+      if (kind !== "request" && kind !== "response") {
+        throw new Error(`Expected 'request' or 'response' but got '${kind}' at ${this.file}:${line}`);
+      }
+
+      if (this.peek() === "{") {
+        const typeName = `${name}.${kind}`;
+        this.parseStruct(typeName, [prefix]);
+        protocol[kind] = typeName;
+      } else {
+        const ref = this.next();
+        if (kind === "response" && ref === "nil") {
+          protocol.confirm = true;
+        } else {
+          this.pending.push({ ref, scopes: [prefix], resolve: (resolved) => { protocol[kind] = resolved; } });
+        }
+      }
+    }
+    this.expect("}");
+  }
+}
+
+/**
+ * 解析多个协议文件
+ * @param sources 协议文件列表，prefix 为名称前缀（通常为文件名）
+ * @returns 协议定义
+ */
+export function parseSproto(sources: { prefix: string; content: string }[]): SprotoSchema {
+  const parser = new SprotoParser();
+  for (const source of sources) {
+    parser.parse(source.content, source.prefix);
+  }
+  return parser.finish();
+}
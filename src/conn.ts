@@ -3,6 +3,8 @@
  */
 
 import { Buffer } from './buffer';
+import { EventEmitter } from './emitter';
+import { Logger, ComponentLogger, componentLogger, errorFields } from './logger';
 
 const stateConnect = { name: "connect" };
 const stateForward = { name: "forward" };
@@ -52,6 +54,42 @@ interface NewConnectionResult {
   error?: string;
 }
 
+/**
+ * WebSocket 工厂函数类型，用于替换全局 WebSocket，如 Node.js 下的 ws 库或测试用的模拟连接
+ */
+export type WebSocketFactory = (url: string) => WebSocket;
+
+/**
+ * 默认使用全局 WebSocket 创建连接
+ * @param url WebSocket服务器URL
+ * @returns WebSocket实例
+ */
+const defaultWebSocketFactory: WebSocketFactory = (url: string) => new WebSocket(url);
+
+/**
+ * WebSocket 连接配置项接口，与 SConnOptions 中的同名字段相同
+ */
+export interface ConnOptions {
+  /** 日志器，默认不输出 */
+  logger?: Logger;
+  /** WebSocket 工厂函数，重连时也用它创建连接，默认使用全局 WebSocket */
+  transport?: WebSocketFactory;
+  /** 建立连接的超时时间（毫秒），0 表示不超时，默认 0 */
+  dialTimeout?: number;
+}
+
+/**
+ * 传输层事件定义
+ */
+export interface TransportEvents {
+  /** WebSocket 连接建立 */
+  open: { url: string };
+  /** WebSocket 连接关闭，byPeer 表示非本端主动关闭 */
+  close: { url: string; code: number; reason: string; byPeer: boolean };
+  /** WebSocket 发生错误 */
+  error: { url: string; error: string };
+}
+
 /**
  * 连接结果接口
  */
@@ -70,18 +108,22 @@ class WSConnection {
   public vDeadline?: number;
   public socketError: string | null = null;
   public time: () => number;
-  public log: (msg: string) => void;
+  public log: ComponentLogger;
+  public vEvents: EventEmitter<TransportEvents> = new EventEmitter(
+    (event, error) => this.log.error('Event listener failed', { event, ...errorFields(error) })
+  );
 
-  constructor(websocket: WebSocket) {
+  /**
+   * @param websocket WebSocket实例
+   * @param logger 日志器，默认不输出
+   */
+  constructor(websocket: WebSocket, logger?: Logger) {
     this.websocket = websocket;
     this.vState = stateConnect;
     this.vRecvBuf = Buffer.create();
     this.socketError = null;
     this.time = () => Date.now();
-    this.log = (msg) => {
-      const timestamp = new Date().toISOString().replace('T', ' ').substring(0, 23);
-      console.log(`[${timestamp}] [INFO] [WSConnection] ${msg}`);
-    };
+    this.log = componentLogger(logger, 'WSConnection');
 
     this.registerCallback();
   }
@@ -92,22 +134,28 @@ class WSConnection {
    * @param reason 关闭原因
    */
   close(code?: number, reason?: string): void {
-    this.log(`ws:${this.websocket.url} close`);
+    this.log.info("websocket close", { url: this.websocket.url });
     this.websocket.close(code, reason);
     this.vState = stateClose;
+    this.socketError = null;
   }
 
   /**
    * 注册WebSocket事件回调函数
    */
   protected registerCallback(): void {
-    this.websocket.onopen = () => {
+    const websocket = this.websocket;
+
+    websocket.onopen = () => {
+      // 忽略已被 newConnect 替换掉的旧连接事件
+      if (websocket !== this.websocket) return;
       this.vState = stateForward;
-      this.log("websocket connect succeed");
+      this.log.info("websocket connect succeed", { url: websocket.url });
+      this.vEvents.emit('open', { url: websocket.url });
     };
 
-    this.websocket.onmessage = async (event) => {
-      console.log("websocket recv message", event.data);
+    websocket.onmessage = async (event) => {
+      if (websocket !== this.websocket) return;
       
       let data: ArrayBuffer;
       
@@ -120,21 +168,37 @@ class WSConnection {
         data = await event.data.arrayBuffer();
       } else {
         // 其他类型（如字符串），直接传递给 Buffer 处理
+        this.log.debug("websocket recv message", { type: typeof event.data });
         this.vRecvBuf.push(event.data);
         return;
       }
       
+      this.log.debug("websocket recv message", { bytes: data.byteLength });
       this.vRecvBuf.push(data);
     };
 
-    this.websocket.onclose = (event) => {
+    websocket.onclose = (event) => {
+      if (websocket !== this.websocket) return;
+      // 非本端主动关闭时记录为连接断开
+      const byPeer = this.vState !== stateClose;
+      if (byPeer && !this.socketError) {
+        this.socketError = "connection_break";
+      }
       this.vState = stateClose;
-      this.log("websocket close");
+      this.log.info("websocket closed", { url: websocket.url, code: event.code, byPeer });
+      this.vEvents.emit('close', {
+        url: websocket.url,
+        code: event.code,
+        reason: event.reason,
+        byPeer
+      });
     };
 
-    this.websocket.onerror = () => {
-      this.log("websocket error");
+    websocket.onerror = () => {
+      if (websocket !== this.websocket) return;
+      this.log.warn("websocket error", { url: websocket.url });
       this.socketError = "websocket_error";
+      this.vEvents.emit('error', { url: websocket.url, error: this.socketError });
     };
   }
 }
@@ -150,7 +214,9 @@ export interface IWSConnection {
   update(): ConnectionUpdateResult;
   newConnect(url: string): NewConnectionResult;
   close(): void;
+  abort(error: string): void;
   url?: string;
+  vEvents: EventEmitter<TransportEvents>;
 }
 
 /**
@@ -159,10 +225,27 @@ export interface IWSConnection {
 class ExtendedWSConnection extends WSConnection implements IWSConnection {
   public url?: string;
   private sendBuffer: Buffer = Buffer.create();
+  private createWebSocket: WebSocketFactory;
+  private dialTimeout: number;
 
-  constructor(websocket: WebSocket, url?: string) {
-    super(websocket);
+  /**
+   * @param websocket WebSocket实例
+   * @param url WebSocket服务器URL
+   * @param options 连接配置项
+   */
+  constructor(websocket: WebSocket, url?: string, options: ConnOptions = {}) {
+    super(websocket, options.logger);
     this.url = url;
+    this.createWebSocket = options.transport || defaultWebSocketFactory;
+    this.dialTimeout = options.dialTimeout ?? 0;
+    this.armDeadline();
+  }
+
+  /**
+   * 开始建立连接时设置超时截止时间，超时后 update() 返回 dial_timeout
+   */
+  private armDeadline(): void {
+    this.vDeadline = this.dialTimeout > 0 ? this.time() + this.dialTimeout : undefined;
   }
 
   /**
@@ -230,6 +313,14 @@ class ExtendedWSConnection extends WSConnection implements IWSConnection {
         status: "connect"
       };
     } else if (this.vState === stateClose) {
+      // 被动断开（对端关闭或网络错误）时上报 connect_break，以便发起重连
+      if (this.socketError) {
+        return {
+          success: false,
+          error: this.socketError,
+          status: "connect_break"
+        };
+      }
       return {
         success: false,
         error: "connection_closed",
@@ -266,15 +357,18 @@ class ExtendedWSConnection extends WSConnection implements IWSConnection {
   newConnect(url: string): NewConnectionResult {
     try {
       this.close();
-      const newWs = new WebSocket(url);
+      const newWs = this.createWebSocket(url);
 
       // 替换WebSocket实例
       this.websocket = newWs;
       this.vState = stateConnect;
       this.socketError = null;
       this.url = url;
+      // 旧连接上未发出的数据由 SConn 的重传缓存负责补发，不能再发到新连接上
+      this.sendBuffer.clear();
 
       this.registerCallback();
+      this.armDeadline();
 
       return { success: true };
     } catch (error) {
@@ -285,6 +379,16 @@ class ExtendedWSConnection extends WSConnection implements IWSConnection {
     }
   }
 
+  /**
+   * 以错误关闭连接，之后 update() 报告 connect_break，与对端断开的处理相同
+   * @param error 错误信息
+   */
+  abort(error: string): void {
+    this.log.warn("websocket abort", { url: this.websocket.url, error });
+    this.close();
+    this.socketError = error;
+  }
+
   /**
    * 重新注册WebSocket事件回调函数（公开方法）
    */
@@ -300,21 +404,22 @@ export class WSClient {
   /**
    * 创建新的WebSocket连接
    * @param url WebSocket服务器URL
+   * @param options 连接配置项
    * @returns WebSocket连接实例，失败时返回null
    */
-  static new(url: string): ExtendedWSConnection | null {
+  static new(url: string, options: ConnOptions = {}): ExtendedWSConnection | null {
     try {
-      const ws = new WebSocket(url);
+      const factory = options.transport || defaultWebSocketFactory;
+      const ws = factory(url);
 
       if (!ws) {
         return null;
       }
 
-      const conn = new ExtendedWSConnection(ws, url);
+      const conn = new ExtendedWSConnection(ws, url, options);
       return conn;
     } catch (error) {
-      const timestamp = new Date().toISOString().replace('T', ' ').substring(0, 23);
-      console.error(`[${timestamp}] [ERROR] [WSClient] WebSocket connection failed:`, error);
+      componentLogger(options.logger, 'WSClient').error("WebSocket connection failed", { url, error: String(error) });
       return null;
     }
   }
@@ -324,10 +429,11 @@ export class WSClient {
 /**
  * 连接WebSocket函数，为sconn.ts提供接口
  * @param url WebSocket服务器URL
+ * @param options 连接配置项
  * @returns 连接结果
  */
-export function connect(url: string): ConnectionResult {
-  const conn = WSClient.new(url);
+export function connect(url: string, options: ConnOptions = {}): ConnectionResult {
+  const conn = WSClient.new(url, options);
   if (!conn) {
     return {
       connection: null,
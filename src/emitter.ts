@@ -0,0 +1,96 @@
+/**
+ * EventEmitter - 类型化事件派发器
+ *
+ * 事件名与负载类型由 Events 映射约束，供 WSConnection、SConn 和 Network
+ * 对外通知生命周期变化。
+ */
+
+/**
+ * 事件监听函数类型
+ */
+export type EventListener<T> = (payload: T) => void;
+
+/**
+ * 监听函数异常处理函数类型
+ */
+export type ListenerErrorHandler = (event: string, error: unknown) => void;
+
+/**
+ * 类型化事件派发器
+ */
+export class EventEmitter<Events extends { [K in keyof Events]: any }> {
+  private listeners: Map<keyof Events, Set<EventListener<any>>> = new Map();
+  private onListenerError: ListenerErrorHandler | null;
+
+  /**
+   * @param onListenerError 监听函数抛出异常时的处理函数，默认忽略
+   */
+  constructor(onListenerError?: ListenerErrorHandler) {
+    this.onListenerError = onListenerError || null;
+  }
+
+  /**
+   * 订阅事件
+   * @param event 事件名
+   * @param listener 监听函数
+   * @returns 取消订阅函数
+   */
+  on<K extends keyof Events>(event: K, listener: EventListener<Events[K]>): () => void {
+    let set = this.listeners.get(event);
+    if (!set) {
+      set = new Set();
+      this.listeners.set(event, set);
+    }
+    set.add(listener);
+    return () => this.off(event, listener);
+  }
+
+  /**
+   * 取消订阅事件
+   * @param event 事件名
+   * @param listener 监听函数
+   */
+  off<K extends keyof Events>(event: K, listener: EventListener<Events[K]>): void {
+    const set = this.listeners.get(event);
+    if (!set) {
+      return;
+    }
+    set.delete(listener);
+    if (set.size === 0) {
+      this.listeners.delete(event);
+    }
+  }
+
+  /**
+   * 派发事件，单个监听函数抛出的异常不会影响其它监听函数
+   * @param event 事件名
+   * @param payload 事件负载
+   */
+  emit<K extends keyof Events>(event: K, payload: Events[K]): void {
+    const set = this.listeners.get(event);
+    if (!set) {
+      return;
+    }
+    for (const listener of Array.from(set)) {
+      try {
+        listener(payload);
+      } catch (error) {
+        if (this.onListenerError) {
+          this.onListenerError(String(event), error);
+        }
+      }
+    }
+  }
+
+  /**
+   * 移除监听函数
+   * @param event 事件名，不传则移除所有事件的监听函数
+   */
+  removeAllListeners(event?: keyof Events): void {
+    if (event === undefined) {
+      this.listeners.clear();
+    } else {
+      this.listeners.delete(event);
+    }
+  }
+}
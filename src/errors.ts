@@ -0,0 +1,195 @@
+/**
+ * 错误类型定义
+ *
+ * Network/SConn 对外抛出的类型化错误，便于调用方通过 instanceof 区分处理
+ */
+
+/**
+ * 请求超时错误
+ * 在 call() 指定时间内未收到服务器响应时抛出
+ */
+export class RequestTimeoutError extends Error {
+  /** 协议名称 */
+  public readonly protocol: string;
+  /** 会话索引 */
+  public readonly session: number;
+  /** 超时时长（毫秒） */
+  public readonly timeout: number;
+
+  constructor(protocol: string, session: number, timeout: number) {
+    super(`Request ${protocol} (session ${session}) timed out after ${timeout}ms`);
+    this.name = 'RequestTimeoutError';
+    this.protocol = protocol;
+    this.session = session;
+    this.timeout = timeout;
+  }
+}
+
+/**
+ * 连接关闭原因
+ * - closed: 本端主动关闭（close()/重新connect()）
+ * - connect_break: 底层传输断开
+ * - reconnect_failed: 断线重连失败
+ * - connect_timeout: 新连接建立或握手超时
+ */
+export type ConnectionCloseReason = 'closed' | 'connect_break' | 'reconnect_failed' | 'connect_timeout';
+
+/**
+ * 连接关闭错误
+ * 连接关闭或断开时，所有等待响应的 call() 均以该错误拒绝
+ */
+export class ConnectionClosedError extends Error {
+  /** 关闭原因 */
+  public readonly reason: ConnectionCloseReason;
+  /** 协议名称 */
+  public readonly protocol: string;
+  /** 会话索引 */
+  public readonly session: number;
+
+  constructor(reason: ConnectionCloseReason, protocol: string, session: number) {
+    super(`Request ${protocol} (session ${session}) aborted: connection ${reason}`);
+    this.name = 'ConnectionClosedError';
+    this.reason = reason;
+    this.protocol = protocol;
+    this.session = session;
+  }
+}
+
+/**
+ * 连接超时阶段
+ * - dial: 建立 WebSocket 连接
+ * - handshake: 等待 goscon 新连接或重连的握手回复
+ */
+export type ConnectTimeoutPhase = 'dial' | 'handshake';
+
+/**
+ * 连接超时错误
+ * 新连接建立或等待握手回复超过配置的时间时产生，SConn 随后进入 connect_timeout 状态；
+ * 重连超时只让本次重连以 connect_break 失败，不产生该错误
+ */
+export class ConnectTimeoutError extends Error {
+  /** 超时阶段 */
+  public readonly phase: ConnectTimeoutPhase;
+  /** 超时时长（毫秒） */
+  public readonly timeout: number;
+
+  constructor(phase: ConnectTimeoutPhase, timeout: number) {
+    super(`Connect ${phase} timed out after ${timeout}ms`);
+    this.name = 'ConnectTimeoutError';
+    this.phase = phase;
+    this.timeout = timeout;
+  }
+}
+
+/**
+ * 请求取消错误
+ * 调用方通过 AbortSignal 取消 call() 时抛出
+ */
+export class AbortError extends Error {
+  /** 协议名称 */
+  public readonly protocol: string;
+  /** 会话索引 */
+  public readonly session: number;
+
+  constructor(protocol: string, session: number) {
+    super(`Request ${protocol} (session ${session}) was aborted`);
+    this.name = 'AbortError';
+    this.protocol = protocol;
+    this.session = session;
+  }
+}
+
+/**
+ * 请求处理器错误
+ * 服务器发起的请求在 register() 注册的处理器中抛出异常或返回被拒绝的 Promise 时产生，
+ * 通过 Network 的 error 事件通知，不会向服务器回复响应
+ */
+export class HandlerError extends Error {
+  /** 协议名称 */
+  public readonly protocol: string;
+  /** 服务器请求的会话索引 */
+  public readonly session: number | undefined;
+  /** 处理器抛出的原始错误 */
+  public readonly cause: unknown;
+
+  constructor(protocol: string, session: number | undefined, cause: unknown) {
+    super(`Handler for ${protocol} failed: ${cause instanceof Error ? cause.message : String(cause)}`);
+    this.name = 'HandlerError';
+    this.protocol = protocol;
+    this.session = session;
+    this.cause = cause;
+  }
+}
+
+/**
+ * 消息丢弃原因
+ * - queue_full: 出站队列已满，按 reject 策略拒绝
+ * - evicted: 出站队列已满，按 drop-oldest 策略被新消息挤出
+ * - connection_unavailable: 没有连接或连接已进入关闭/重连失败状态
+ * - rate_limited: 超出限流，按 reject 策略拒绝
+ * - coalesced: 超出限流排队时，按 coalesce 策略被同一协议的 invoke 或参数不同的 call 替换，无法共享响应
+ */
+export type MessageDropReason = 'queue_full' | 'evicted' | 'connection_unavailable' | 'rate_limited' | 'coalesced';
+
+/**
+ * 消息丢弃错误
+ * 请求未能发出时 call() 以该错误拒绝，invoke() 返回 false 或通过 error 事件通知
+ */
+export class MessageDroppedError extends Error {
+  /** 丢弃原因 */
+  public readonly reason: MessageDropReason;
+  /** 协议名称 */
+  public readonly protocol: string;
+  /** 会话索引，invoke 发送的消息没有会话 */
+  public readonly session: number | undefined;
+
+  constructor(reason: MessageDropReason, protocol: string, session?: number) {
+    super(`Request ${protocol}${session !== undefined ? ` (session ${session})` : ''} dropped: ${reason}`);
+    this.name = 'MessageDroppedError';
+    this.reason = reason;
+    this.protocol = protocol;
+    this.session = session;
+  }
+}
+
+/**
+ * 将任意抛出值转换为 Error 对象
+ * @param error 抛出值
+ * @returns Error 对象
+ */
+export function toError(error: unknown): Error {
+  return error instanceof Error ? error : new Error(String(error));
+}
+
+/**
+ * 协议不匹配错误
+ * 协议校验失败后，未完成和之后发起的请求均以该错误拒绝
+ */
+export class ProtocolMismatchError extends Error {
+  /** 客户端协议校验码 */
+  public readonly checksum: string;
+
+  constructor(checksum: string) {
+    super(`Protocol checksum ${checksum} does not match the server`);
+    this.name = 'ProtocolMismatchError';
+    this.checksum = checksum;
+  }
+}
+
+/**
+ * 会话数超限错误
+ * 未完成的会话数达到上限，或会话索引范围内已没有空闲索引时，call() 以该错误拒绝
+ */
+export class SessionLimitError extends Error {
+  /** 协议名称 */
+  public readonly protocol: string;
+  /** 会话数上限 */
+  public readonly limit: number;
+
+  constructor(protocol: string, limit: number) {
+    super(`Request ${protocol} rejected: ${limit} sessions already in flight`);
+    this.name = 'SessionLimitError';
+    this.protocol = protocol;
+    this.limit = limit;
+  }
+}
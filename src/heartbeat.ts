@@ -0,0 +1,106 @@
+/**
+ * Heartbeat - 应用层心跳和对端失联检测
+ *
+ * 一段时间没有发出数据时发送心跳，超过超时时间没有收到任何数据时判定对端失联，
+ * 用于发现移动网络 NAT 后不会触发 onclose 的半开连接。
+ * 心跳只在 forward 状态下经 SConn 正常发出，与业务数据一样计入发送字节数和重传缓存，
+ * 不会破坏 goscon 重连时的字节对账。
+ * 本身不持有定时器，由 Network.update() 轮询驱动。
+ */
+
+/**
+ * 心跳配置项接口
+ */
+export interface HeartbeatOptions {
+  /** 连续多久没有发出数据后发送心跳（毫秒），0 表示不发送，默认 10000 */
+  interval?: number;
+  /** 连续多久没有收到数据视为连接已断开（毫秒），0 表示不检测，默认 30000 */
+  timeout?: number;
+  /** 心跳协议名称，有响应时通过 call() 发送，否则通过 invoke() 发送 */
+  protocol?: string;
+  /** 心跳协议的请求数据 */
+  data?: any;
+  /** 原始心跳帧，不经过编解码器直接作为一条消息发出，设置 protocol 时忽略 */
+  frame?: Uint8Array;
+}
+
+/**
+ * 连接收发的字节数
+ */
+export interface TrafficCounters {
+  /** 已发出的字节数 */
+  sent: number;
+  /** 已收到的字节数 */
+  received: number;
+}
+
+/**
+ * 心跳检查结果
+ * - none: 无需处理
+ * - ping: 需要发送心跳
+ * - timeout: 对端失联，应按连接断开处理
+ */
+export type HeartbeatAction = 'none' | 'ping' | 'timeout';
+
+const DEF_HEARTBEAT_INTERVAL = 10000;
+const DEF_HEARTBEAT_TIMEOUT = 30000;
+
+/**
+ * 心跳调度器类
+ */
+export class Heartbeat {
+  private interval: number;
+  private timeout: number;
+  /** 上一次检查时的字节数，-1 表示尚未开始 */
+  private sent: number = -1;
+  private received: number = -1;
+  private lastSent: number = 0;
+  private lastReceived: number = 0;
+
+  /**
+   * 创建心跳调度器
+   * @param options 心跳配置项
+   */
+  constructor(options: HeartbeatOptions = {}) {
+    this.interval = options.interval ?? DEF_HEARTBEAT_INTERVAL;
+    this.timeout = options.timeout ?? DEF_HEARTBEAT_TIMEOUT;
+  }
+
+  /**
+   * 检查是否需要发送心跳或对端已失联，只应在连接处于 forward 状态时调用
+   * @param now 当前时间（毫秒）
+   * @param traffic 连接当前的收发字节数
+   * @returns 检查结果
+   */
+  tick(now: number, traffic: TrafficCounters): HeartbeatAction {
+    if (this.sent === -1 || traffic.sent !== this.sent) {
+      this.sent = traffic.sent;
+      this.lastSent = now;
+    }
+    if (this.received === -1 || traffic.received !== this.received) {
+      this.received = traffic.received;
+      this.lastReceived = now;
+    }
+
+    if (this.timeout > 0 && now - this.lastReceived >= this.timeout) {
+      this.reset();
+      return 'timeout';
+    }
+    if (this.interval > 0 && now - this.lastSent >= this.interval) {
+      // 心跳未能发出时也等待一个完整间隔再重试
+      this.lastSent = now;
+      return 'ping';
+    }
+    return 'none';
+  }
+
+  /**
+   * 重置计时（进入 forward 状态时调用），下一次检查重新开始计时
+   */
+  reset(): void {
+    this.sent = -1;
+    this.received = -1;
+    this.lastSent = 0;
+    this.lastReceived = 0;
+  }
+}
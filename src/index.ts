@@ -5,4 +5,26 @@
  */
 
 // 导出Network类
-export { Network } from './network';
\ No newline at end of file
+export { Network } from './network';
+export type { NetworkOptions, CallOptions, ChecksumOptions, NetworkEvents } from './network';
+export { Multiplexer, MuxChannel } from './mux';
+export { SprotoCodec, JsonCodec, ProtobufCodec } from './codec';
+export { consoleLogger, silentLogger } from './logger';
+export type { Logger, LogLevel, LogFields } from './logger';
+export type { Codec, DecodedMessage, DecodedRequest, DecodedResponse, SessionLookup, JsonCodecOptions, ProtobufCodecOptions, ProtobufProtocol, ProtobufMessageType } from './codec';
+export type { ReconnectPolicy } from './reconnect';
+export type { ScheduleMode, ScheduleOptions } from './scheduler';
+export type { OverflowPolicy, OutboundQueueOptions } from './outbound';
+export type { ThrottlePolicy, RateLimit, ProtocolRateLimit, RateLimitOptions } from './ratelimit';
+export type { SessionOptions } from './session';
+export type { HeartbeatOptions, TrafficCounters } from './heartbeat';
+export type { MetricsOptions, MetricsSnapshot, ProtocolMetrics, LatencyHistogram } from './metrics';
+export type { Interceptor, OutgoingContext, IncomingContext } from './interceptor';
+export type { SConnEvents, SConnOptions, FrameFormat, Endian, ISConn } from './sconn';
+export type { TransportEvents, WebSocketFactory, ConnOptions } from './conn';
+export type { EventListener } from './emitter';
+export type { ProtocolDefinition, AnyProtocols, ProtocolMap, ProtocolName, RequestOf, ResponseOf } from './protocol';
+
+// 导出错误类型
+export { RequestTimeoutError, ConnectionClosedError, AbortError, HandlerError, MessageDroppedError, ProtocolMismatchError, SessionLimitError, ConnectTimeoutError } from './errors';
+export type { ConnectionCloseReason, MessageDropReason, ConnectTimeoutPhase } from './errors';
\ No newline at end of file
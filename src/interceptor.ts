@@ -0,0 +1,108 @@
+/**
+ * Interceptor - 请求/响应拦截器
+ *
+ * 拦截器可以在 sproto 编码前查看和修改 call/invoke 发出的数据，
+ * 也可以在解码后、交给会话回调或 register/on 处理前查看和修改收到的 RESPONSE/REQUEST 数据。
+ * 拦截器是同步执行的：返回非 undefined 的值会替换数据，抛出异常会中止本次处理。
+ */
+
+/**
+ * 发出数据的拦截上下文
+ */
+export interface OutgoingContext {
+  /** 发起方式 */
+  kind: 'call' | 'invoke';
+  /** 协议名称 */
+  name: string;
+  /** 请求数据 */
+  data: any;
+  /** 会话索引，invoke 没有会话 */
+  session?: number;
+}
+
+/**
+ * 收到数据的拦截上下文
+ */
+export interface IncomingContext {
+  /** 消息类型：对 call 的响应或服务器发起的请求 */
+  kind: 'response' | 'request';
+  /** 协议名称 */
+  name: string;
+  /** 解码后的数据 */
+  data: any;
+  /** 会话索引 */
+  session?: number;
+}
+
+/**
+ * 拦截器接口
+ */
+export interface Interceptor {
+  /**
+   * 拦截发出的数据
+   * 抛出异常时 call() 以该异常拒绝，invoke() 返回 false
+   */
+  outgoing?: (ctx: OutgoingContext) => any;
+  /**
+   * 拦截收到的数据
+   * 对响应抛出异常时 call() 以该异常拒绝；对请求抛出异常时不调用处理器
+   */
+  incoming?: (ctx: IncomingContext) => any;
+}
+
+/**
+ * 拦截器链
+ * 发出的数据按注册顺序经过拦截器，收到的数据按注册的相反顺序经过拦截器
+ */
+export class InterceptorChain {
+  private interceptors: Interceptor[] = [];
+
+  /**
+   * 添加拦截器
+   * @param interceptor 拦截器
+   * @returns 移除该拦截器的函数
+   */
+  use(interceptor: Interceptor): () => void {
+    this.interceptors.push(interceptor);
+    return () => {
+      const index = this.interceptors.indexOf(interceptor);
+      if (index !== -1) {
+        this.interceptors.splice(index, 1);
+      }
+    };
+  }
+
+  /**
+   * 依次执行发出数据的拦截
+   * @param ctx 拦截上下文
+   * @returns 最终的请求数据
+   */
+  runOutgoing(ctx: OutgoingContext): any {
+    for (const interceptor of this.interceptors.slice()) {
+      if (interceptor.outgoing) {
+        const data = interceptor.outgoing(ctx);
+        if (data !== undefined) {
+          ctx.data = data;
+        }
+      }
+    }
+    return ctx.data;
+  }
+
+  /**
+   * 依次执行收到数据的拦截
+   * @param ctx 拦截上下文
+   * @returns 最终的数据
+   */
+  runIncoming(ctx: IncomingContext): any {
+    for (const interceptor of this.interceptors.slice().reverse()) {
+      if (interceptor.incoming) {
+        const data = interceptor.incoming(ctx);
+        if (data !== undefined) {
+          ctx.data = data;
+        }
+      }
+    }
+    return ctx.data;
+  }
+}
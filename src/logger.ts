@@ -0,0 +1,111 @@
+/**
+ * Logger - 可替换的结构化日志接口
+ *
+ * Network、SConn、WSConnection 等模块通过配置项注入日志器，默认不输出任何日志。
+ * 每条日志带级别、组件名、消息和结构化字段，可以对接任意日志系统；
+ * 调试时使用 consoleLogger() 输出到控制台。
+ */
+
+/**
+ * 日志级别
+ */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+/**
+ * 结构化字段
+ */
+export type LogFields = { [key: string]: any };
+
+/**
+ * 日志器接口
+ */
+export interface Logger {
+  debug(component: string, message: string, fields?: LogFields): void;
+  info(component: string, message: string, fields?: LogFields): void;
+  warn(component: string, message: string, fields?: LogFields): void;
+  error(component: string, message: string, fields?: LogFields): void;
+}
+
+/**
+ * 绑定了组件名的日志器，供各模块内部使用
+ */
+export interface ComponentLogger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+}
+
+const LEVEL_ORDER: { [K in LogLevel]: number } = {
+  debug: 0,
+  info: 1,
+  warn: 2,
+  error: 3
+};
+
+const noop = () => {};
+
+/**
+ * 不输出任何日志的日志器，各模块的默认值
+ */
+export const silentLogger: Logger = {
+  debug: noop,
+  info: noop,
+  warn: noop,
+  error: noop
+};
+
+/**
+ * 创建输出到控制台的日志器
+ * 格式为 "[时间] [级别] [组件] 消息"，结构化字段作为附加参数输出
+ * @param level 最低输出级别，默认 debug
+ * @returns 日志器
+ */
+export function consoleLogger(level: LogLevel = 'debug'): Logger {
+  const write = (target: LogLevel) => (component: string, message: string, fields?: LogFields) => {
+    if (LEVEL_ORDER[target] < LEVEL_ORDER[level]) {
+      return;
+    }
+    const timestamp = new Date().toISOString().replace('T', ' ').substring(0, 23);
+    const line = `[${timestamp}] [${target.toUpperCase()}] [${component}] ${message}`;
+    if (fields !== undefined) {
+      console[target](line, fields);
+    } else {
+      console[target](line);
+    }
+  };
+
+  return {
+    debug: write('debug'),
+    info: write('info'),
+    warn: write('warn'),
+    error: write('error')
+  };
+}
+
+/**
+ * 为日志器绑定组件名
+ * @param logger 日志器，为空时不输出
+ * @param component 组件名
+ * @returns 绑定了组件名的日志器
+ */
+export function componentLogger(logger: Logger | undefined, component: string): ComponentLogger {
+  const target = logger || silentLogger;
+  return {
+    debug: (message, fields) => target.debug(component, message, fields),
+    info: (message, fields) => target.info(component, message, fields),
+    warn: (message, fields) => target.warn(component, message, fields),
+    error: (message, fields) => target.error(component, message, fields)
+  };
+}
+
+/**
+ * 将错误转换为日志字段
+ * @param error 错误
+ * @returns 日志字段
+ */
+export function errorFields(error: unknown): LogFields {
+  return error instanceof Error
+    ? { error: error.message, name: error.name }
+    : { error: String(error) };
+}
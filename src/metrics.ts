@@ -0,0 +1,228 @@
+/**
+ * Metrics - 按协议统计的 RPC 指标
+ *
+ * 记录每个协议的请求次数、错误和超时次数、往返延迟直方图以及编码后的请求/响应大小。
+ * 本身不持有定时器，定期快照由 Network.update() 轮询驱动。
+ */
+
+/**
+ * 指标配置项接口
+ */
+export interface MetricsOptions {
+  /** 延迟直方图各桶的上界（毫秒，升序），默认 [10, 25, 50, 100, 250, 500, 1000, 2500, 5000] */
+  buckets?: number[];
+  /** 定期快照的间隔（毫秒），0 表示不定期快照，默认 0 */
+  interval?: number;
+  /** 定期快照回调 */
+  onSnapshot?: (snapshot: MetricsSnapshot) => void;
+  /** 每次定期快照后是否清零，清零后每个快照只包含该周期内的数据，默认 false */
+  reset?: boolean;
+}
+
+/**
+ * 延迟直方图接口
+ */
+export interface LatencyHistogram {
+  /** 各桶的上界（毫秒） */
+  bounds: number[];
+  /** 各桶的计数，比 bounds 多一个，最后一个为超过最大上界的计数 */
+  counts: number[];
+  /** 样本数 */
+  count: number;
+  /** 延迟总和（毫秒） */
+  sum: number;
+  /** 最小延迟（毫秒），没有样本时为 0 */
+  min: number;
+  /** 最大延迟（毫秒），没有样本时为 0 */
+  max: number;
+}
+
+/**
+ * 单个协议的指标接口
+ */
+export interface ProtocolMetrics {
+  /** call() 发出的请求数 */
+  calls: number;
+  /** invoke() 发出的请求数 */
+  invokes: number;
+  /** 收到响应的 call 数 */
+  responses: number;
+  /** 以超时以外的错误结束的 call 数 */
+  errors: number;
+  /** 超时的 call 数 */
+  timeouts: number;
+  /** 编码后的请求字节数总和 */
+  requestBytes: number;
+  /** 编码后的响应字节数总和 */
+  responseBytes: number;
+  /** 从发出请求到收到响应的延迟 */
+  latency: LatencyHistogram;
+}
+
+/**
+ * 指标快照接口
+ */
+export interface MetricsSnapshot {
+  /** 快照时间（毫秒时间戳） */
+  time: number;
+  /** 协议名称到指标的映射 */
+  protocols: { [name: string]: ProtocolMetrics };
+}
+
+const DEF_BUCKETS = [10, 25, 50, 100, 250, 500, 1000, 2500, 5000];
+
+/**
+ * 指标收集器类
+ */
+export class Metrics {
+  private bounds: number[];
+  private interval: number;
+  private onSnapshot: ((snapshot: MetricsSnapshot) => void) | null;
+  private resetOnSnapshot: boolean;
+  private protocols: Map<string, ProtocolMetrics> = new Map();
+  private lastSnapshot: number = 0;
+
+  /**
+   * 创建指标收集器
+   * @param options 指标配置项
+   */
+  constructor(options: MetricsOptions = {}) {
+    this.bounds = (options.buckets || DEF_BUCKETS).slice().sort((a, b) => a - b);
+    this.interval = options.interval ?? 0;
+    this.onSnapshot = options.onSnapshot || null;
+    this.resetOnSnapshot = !!options.reset;
+  }
+
+  /**
+   * 记录发出的请求
+   * @param name 协议名称
+   * @param bytes 编码后的字节数
+   * @param kind 发起方式
+   */
+  recordRequest(name: string, bytes: number, kind: 'call' | 'invoke'): void {
+    const metrics = this.protocol(name);
+    if (kind === 'call') {
+      metrics.calls = metrics.calls + 1;
+    } else {
+      metrics.invokes = metrics.invokes + 1;
+    }
+    metrics.requestBytes = metrics.requestBytes + bytes;
+  }
+
+  /**
+   * 记录收到的响应
+   * @param name 协议名称
+   * @param bytes 编码后的字节数
+   * @param latency 往返延迟（毫秒）
+   */
+  recordResponse(name: string, bytes: number, latency: number): void {
+    const metrics = this.protocol(name);
+    metrics.responses = metrics.responses + 1;
+    metrics.responseBytes = metrics.responseBytes + bytes;
+
+    const histogram = metrics.latency;
+    let index = this.bounds.findIndex(bound => latency <= bound);
+    if (index === -1) {
+      index = this.bounds.length;
+    }
+    histogram.counts[index] = histogram.counts[index] + 1;
+    histogram.min = histogram.count === 0 ? latency : Math.min(histogram.min, latency);
+    histogram.max = Math.max(histogram.max, latency);
+    histogram.count = histogram.count + 1;
+    histogram.sum = histogram.sum + latency;
+  }
+
+  /**
+   * 记录以错误结束的 call
+   * @param name 协议名称
+   * @param timeout 是否为超时
+   */
+  recordError(name: string, timeout: boolean): void {
+    const metrics = this.protocol(name);
+    if (timeout) {
+      metrics.timeouts = metrics.timeouts + 1;
+    } else {
+      metrics.errors = metrics.errors + 1;
+    }
+  }
+
+  /**
+   * 获取当前指标的快照
+   * @returns 指标快照，与内部数据互不影响
+   */
+  snapshot(): MetricsSnapshot {
+    const protocols: { [name: string]: ProtocolMetrics } = {};
+    this.protocols.forEach((metrics, name) => {
+      protocols[name] = {
+        ...metrics,
+        latency: {
+          ...metrics.latency,
+          bounds: metrics.latency.bounds.slice(),
+          counts: metrics.latency.counts.slice()
+        }
+      };
+    });
+    return { time: Date.now(), protocols };
+  }
+
+  /**
+   * 清零所有指标
+   */
+  reset(): void {
+    this.protocols.clear();
+  }
+
+  /**
+   * 到达快照间隔时生成快照并调用回调
+   * @param now 当前时间（毫秒）
+   */
+  tick(now: number): void {
+    if (this.interval <= 0 || !this.onSnapshot) {
+      return;
+    }
+    if (this.lastSnapshot === 0) {
+      this.lastSnapshot = now;
+      return;
+    }
+    if (now - this.lastSnapshot < this.interval) {
+      return;
+    }
+
+    this.lastSnapshot = now;
+    const snapshot = this.snapshot();
+    if (this.resetOnSnapshot) {
+      this.reset();
+    }
+    this.onSnapshot(snapshot);
+  }
+
+  /**
+   * 获取协议的指标，不存在时创建
+   * @param name 协议名称
+   * @returns 协议指标
+   */
+  private protocol(name: string): ProtocolMetrics {
+    let metrics = this.protocols.get(name);
+    if (!metrics) {
+      metrics = {
+        calls: 0,
+        invokes: 0,
+        responses: 0,
+        errors: 0,
+        timeouts: 0,
+        requestBytes: 0,
+        responseBytes: 0,
+        latency: {
+          bounds: this.bounds.slice(),
+          counts: new Array(this.bounds.length + 1).fill(0),
+          count: 0,
+          sum: 0,
+          min: 0,
+          max: 0
+        }
+      };
+      this.protocols.set(name, metrics);
+    }
+    return metrics;
+  }
+}
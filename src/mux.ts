@@ -0,0 +1,448 @@
+/**
+ * Multiplexer - 在一个 SConn 上复用多个逻辑通道
+ *
+ * 每个通道对应一个 Network（各自的 sproto 包、会话索引、处理器和生命周期），
+ * 发出的消息在 sproto 数据前加 1 字节通道号，收到的消息按通道号分发给对应通道：
+ *
+ *   | 包头（长度） | 通道号（1 字节） | sproto 数据 |
+ *
+ * 服务器需要按同样的格式拆分和回复消息。
+ */
+
+import { SConn, ISConn, SConnEvents, SConnOptions, connect } from './sconn';
+import { EventEmitter, EventListener } from './emitter';
+import { ComponentLogger, componentLogger, errorFields } from './logger';
+import { TrafficCounters } from './heartbeat';
+
+/** 最大通道号 */
+const MAX_CHANNEL_ID = 255;
+
+type UpdateResult = ReturnType<ISConn['update']>;
+type ReconnectResult = ReturnType<ISConn['reconnect']>;
+
+/**
+ * 连接结果接口
+ */
+interface ConnectionResult {
+  success: boolean;
+  error?: string;
+}
+
+/**
+ * 逻辑通道类，实现 ISConn 接口，可直接交给 Network.attach() 使用
+ */
+export class MuxChannel implements ISConn {
+  public readonly id: number;
+  private mux: Multiplexer;
+  private inbox: Uint8Array[] = [];
+  private closed: boolean = false;
+
+  /**
+   * 创建逻辑通道，由 Multiplexer.channel() 调用
+   * @param mux 所属的多路复用器
+   * @param id 通道号
+   */
+  constructor(mux: Multiplexer, id: number) {
+    this.mux = mux;
+    this.id = id;
+  }
+
+  /**
+   * 共享的 goscon 会话 ID
+   */
+  get vId(): number {
+    return this.mux.sessionId();
+  }
+
+  /**
+   * 获取当前状态
+   * @returns 通道已关闭时为 close，否则为共享 SConn 的状态
+   */
+  curState(): string {
+    return this.closed ? "close" : this.mux.curState();
+  }
+
+  /**
+   * 更新共享连接并分发收到的消息
+   * @returns 共享 SConn 的更新结果
+   */
+  update(): UpdateResult {
+    if (this.closed) {
+      return {
+        success: false,
+        error: 'channel closed',
+        status: "close"
+      };
+    }
+    return this.mux.pump();
+  }
+
+  /**
+   * 发送消息，自动加上通道号
+   * @param data 消息数据
+   * @returns 是否发送成功
+   */
+  sendMsg(data: Uint8Array): boolean {
+    return !this.closed && this.mux.send(this.id, data);
+  }
+
+  /**
+   * 取出本通道收到的消息（已去掉通道号）
+   * @param outMsg 输出消息数组
+   * @returns 消息数量
+   */
+  recvMsg(outMsg: Uint8Array[]): number {
+    const count = this.inbox.length;
+    for (const message of this.inbox) {
+      outMsg.push(message);
+    }
+    this.inbox = [];
+    return count;
+  }
+
+  /**
+   * 重连共享连接，多个通道同时请求时只发起一次
+   * @param cb 重连结果回调函数
+   * @returns 重连操作结果
+   */
+  reconnect(cb?: (success: boolean) => void): ReconnectResult {
+    if (this.closed) {
+      return {
+        success: false,
+        error: 'channel closed'
+      };
+    }
+    return this.mux.reconnect(cb);
+  }
+
+  /**
+   * 获取共享连接进入失败状态的原因
+   * @returns 失败原因，没有时为 null
+   */
+  lastError(): Error | null {
+    return this.mux.lastError();
+  }
+
+  /**
+   * 获取共享连接收发的字节数，包含所有通道的数据
+   * @returns 收发字节数
+   */
+  traffic(): TrafficCounters {
+    return this.mux.traffic();
+  }
+
+  /**
+   * 以错误断开共享连接，所有通道都会收到 connect_break
+   * @param error 错误信息
+   */
+  abort(error: string): void {
+    if (!this.closed) {
+      this.mux.abort(error);
+    }
+  }
+
+  /**
+   * 关闭通道，最后一个通道关闭时同时关闭共享连接
+   */
+  close(): void {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+    this.inbox = [];
+    this.mux.detach(this);
+  }
+
+  /**
+   * 订阅共享连接的事件，通道关闭后不再通知
+   * @param event 事件名
+   * @param listener 监听函数
+   * @returns 取消订阅函数
+   */
+  on<K extends keyof SConnEvents>(event: K, listener: EventListener<SConnEvents[K]>): () => void {
+    return this.mux.on(event, (payload) => {
+      if (!this.closed) {
+        listener(payload);
+      }
+    });
+  }
+
+  /**
+   * 投递收到的消息，由 Multiplexer 调用
+   * @param message 去掉通道号的消息数据
+   */
+  deliver(message: Uint8Array): void {
+    if (!this.closed) {
+      this.inbox.push(message);
+    }
+  }
+}
+
+/**
+ * 多路复用器类
+ *
+ * 持有一个 SConn，为每个通道号创建一个 MuxChannel；
+ * 任一通道的 update() 都会驱动共享连接并把消息分发到各通道
+ */
+export class Multiplexer {
+  private connection: SConn | null = null;
+  private channels: Map<number, MuxChannel> = new Map();
+  private events: EventEmitter<SConnEvents> = new EventEmitter(
+    (event, error) => this.log.error('Event listener failed', { event, ...errorFields(error) })
+  );
+  private unbindConnection: (() => void) | null = null;
+  /** 已发起重连、尚未收到结果 */
+  private reconnecting: boolean = false;
+  private reconnectCallbacks: Array<(success: boolean) => void> = [];
+  private options: SConnOptions;
+  private log: ComponentLogger;
+
+  /**
+   * 创建多路复用器
+   * @param options 共享 SConn 的配置项
+   */
+  constructor(options: SConnOptions = {}) {
+    this.options = options;
+    this.log = componentLogger(options.logger, 'Multiplexer');
+  }
+
+  /**
+   * 连接到指定的WebSocket服务器，已有连接时先关闭
+   * @param url WebSocket服务器URL
+   * @param options 目标服务器标识，或覆盖构造时配置的连接配置项
+   * @returns 连接结果
+   */
+  connect(url: string, options: string | SConnOptions = {}): ConnectionResult {
+    this.release();
+
+    const overrides = typeof options === "string" ? { targetServer: options } : options;
+    const result = connect(url, { ...this.options, ...overrides });
+    if (!result.connection) {
+      return {
+        success: false,
+        error: result.error || 'Connection failed'
+      };
+    }
+
+    const connection = result.connection;
+    const forward = <K extends keyof SConnEvents>(event: K) =>
+      connection.on(event, (payload) => this.events.emit(event, payload));
+    const offs = [forward('stateChange'), forward('open'), forward('close'), forward('error'), forward('cachePressure')];
+
+    this.connection = connection;
+    this.unbindConnection = () => offs.forEach(off => off());
+    return { success: true };
+  }
+
+  /**
+   * 获取通道，不存在时创建
+   * @param id 通道号，0-255
+   * @returns 逻辑通道
+   */
+  channel(id: number): MuxChannel {
+    if (!Number.isInteger(id) || id < 0 || id > MAX_CHANNEL_ID) {
+      throw new Error(`Invalid channel id: ${id}`);
+    }
+
+    let channel = this.channels.get(id);
+    if (!channel) {
+      channel = new MuxChannel(this, id);
+      this.channels.set(id, channel);
+    }
+    return channel;
+  }
+
+  /**
+   * 获取共享连接的状态
+   * @returns SConn状态，未连接时为 close
+   */
+  curState(): string {
+    return this.connection ? this.connection.curState() : "close";
+  }
+
+  /**
+   * 获取共享的 goscon 会话 ID
+   * @returns 会话 ID，未连接时为 0
+   */
+  sessionId(): number {
+    return this.connection ? this.connection.vId : 0;
+  }
+
+  /**
+   * 获取共享连接进入失败状态的原因
+   * @returns 失败原因，未连接或没有时为 null
+   */
+  lastError(): Error | null {
+    return this.connection ? this.connection.lastError() : null;
+  }
+
+  /**
+   * 获取共享连接收发的字节数
+   * @returns 收发字节数，未连接时为 0
+   */
+  traffic(): TrafficCounters {
+    return this.connection ? this.connection.traffic() : { sent: 0, received: 0 };
+  }
+
+  /**
+   * 以错误断开共享连接
+   * @param error 错误信息
+   */
+  abort(error: string): void {
+    if (this.connection) {
+      this.connection.abort(error);
+    }
+  }
+
+  /**
+   * 订阅共享连接的事件
+   * @param event 事件名
+   * @param listener 监听函数
+   * @returns 取消订阅函数
+   */
+  on<K extends keyof SConnEvents>(event: K, listener: EventListener<SConnEvents[K]>): () => void {
+    return this.events.on(event, listener);
+  }
+
+  /**
+   * 更新共享连接，并按通道号分发收到的消息
+   * @returns SConn更新结果
+   */
+  pump(): UpdateResult {
+    const connection = this.connection;
+    if (!connection) {
+      return {
+        success: false,
+        error: 'No connection established',
+        status: "close"
+      };
+    }
+
+    const result = connection.update();
+    // 重连过程中再次断开，允许通道重新发起重连
+    if (result.status === "connect_break") {
+      this.reconnecting = false;
+    }
+
+    if (result.success) {
+      const messages: Uint8Array[] = [];
+      const count = connection.recvMsg(messages);
+      for (let i = 0; i < count; i++) {
+        this.route(messages[i]);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * 加上通道号后发送消息
+   * @param id 通道号
+   * @param data 消息数据
+   * @returns 是否发送成功
+   */
+  send(id: number, data: Uint8Array): boolean {
+    if (!this.connection) {
+      return false;
+    }
+    const tagged = new Uint8Array(data.length + 1);
+    tagged[0] = id;
+    tagged.set(data, 1);
+    return this.connection.sendMsg(tagged);
+  }
+
+  /**
+   * 重连共享连接
+   * 已有重连在进行时只登记回调，结果返回后通知所有发起重连的通道
+   * @param cb 重连结果回调函数
+   * @returns 重连操作结果
+   */
+  reconnect(cb?: (success: boolean) => void): ReconnectResult {
+    if (!this.connection) {
+      return {
+        success: false,
+        error: 'No connection established'
+      };
+    }
+
+    if (this.reconnecting) {
+      if (cb) {
+        this.reconnectCallbacks.push(cb);
+      }
+      return { success: true };
+    }
+
+    const result = this.connection.reconnect((success: boolean) => {
+      const callbacks = this.reconnectCallbacks;
+      this.reconnectCallbacks = [];
+      this.reconnecting = false;
+      for (const callback of callbacks) {
+        callback(success);
+      }
+    });
+    if (!result.success) {
+      return result;
+    }
+
+    if (cb) {
+      this.reconnectCallbacks.push(cb);
+    }
+    this.reconnecting = true;
+    return result;
+  }
+
+  /**
+   * 移除通道，没有通道时关闭共享连接
+   * @param channel 逻辑通道
+   */
+  detach(channel: MuxChannel): void {
+    if (this.channels.get(channel.id) !== channel) {
+      return;
+    }
+    this.channels.delete(channel.id);
+    if (this.channels.size === 0) {
+      this.release();
+    }
+  }
+
+  /**
+   * 关闭所有通道和共享连接
+   */
+  close(): void {
+    for (const channel of Array.from(this.channels.values())) {
+      channel.close();
+    }
+    this.release();
+  }
+
+  /**
+   * 关闭共享连接并重置重连状态
+   */
+  private release(): void {
+    if (this.unbindConnection) {
+      this.unbindConnection();
+      this.unbindConnection = null;
+    }
+    if (this.connection) {
+      this.connection.close();
+      this.connection = null;
+    }
+    this.reconnecting = false;
+    this.reconnectCallbacks = [];
+  }
+
+  /**
+   * 按通道号分发一条消息，未知通道的消息被丢弃
+   * @param message 带通道号的消息数据
+   */
+  private route(message: Uint8Array): void {
+    if (message.length === 0) {
+      return;
+    }
+    const channel = this.channels.get(message[0]);
+    if (!channel) {
+      this.log.warn('Dropped message for unknown channel', { channel: message[0], bytes: message.length });
+      return;
+    }
+    channel.deliver(message.subarray(1));
+  }
+}
@@ -2,7 +2,7 @@
  * Network - 基于sproto协议和SConn的网络通信模块
  * 
  * 提供以下功能：
- * - 基于sproto协议的消息编解码
+ * - 基于可替换编解码器的消息编解码（默认 sproto）
  * - 请求-响应模式的网络通信
  * - 自动会话管理
  * - 消息处理器注册机制
@@ -10,17 +10,177 @@
  * TypeScript版本，移植自network.lua
  */
 
-import sproto from '@imhanxi/sproto-js';
-// import sproto from '../../sproto-js/src/sproto';
-import { SConn, connect } from './sconn';
-import { CryptUtils } from './crypto';
+import { ISConn, SConnOptions, connect } from './sconn';
+import { RequestTimeoutError, ConnectionClosedError, ConnectionCloseReason, AbortError, HandlerError, MessageDroppedError, ProtocolMismatchError, SessionLimitError, toError } from './errors';
+import { Reconnector, ReconnectPolicy } from './reconnect';
+import { EventEmitter, EventListener } from './emitter';
+import { AnyProtocols, ProtocolMap, ProtocolName, RequestOf, ResponseOf } from './protocol';
+import { Scheduler, ScheduleOptions } from './scheduler';
+import { OutboundQueue, OutboundQueueOptions, OutboundItem } from './outbound';
+import { InterceptorChain, Interceptor } from './interceptor';
+import { RateLimiter, RateLimitOptions } from './ratelimit';
+import { SessionAllocator, SessionOptions } from './session';
+import { Codec, DecodedMessage, DecodedRequest, SprotoCodec } from './codec';
+import { Metrics, MetricsOptions, MetricsSnapshot } from './metrics';
+import { Heartbeat, HeartbeatOptions } from './heartbeat';
+import { Logger, ComponentLogger, componentLogger, errorFields } from './logger';
+
+/** 默认请求超时时间（毫秒） */
+const DEF_CALL_TIMEOUT = 30000;
+
+/** 生命周期事件名，on()/off() 中保留，不作为协议名使用 */
+const NETWORK_EVENT_NAMES = ["stateChange", "connected", "reconnecting", "reconnected", "disconnected", "error", "protocolMismatch"];
+
+/** 重连失败的终止状态 */
+const RECONNECT_ERROR_STATES = ["reconnect_error", "reconnect_match_error", "reconnect_cache_error"];
 
 /**
  * 会话项接口
  */
 interface SessionItem {
   name: string;
-  handle: ((response: any) => void) | null;
+  /** 编码请求时使用的编解码器，响应需要由同一个编解码器解码 */
+  codec: Codec;
+  /** 共享会话的请求标识，未开启 dedupe 时为 null */
+  key: string | null;
+  /** 请求参数的结构标识，只为 coalesce 限流策略的协议计算，用于判断排队的请求能否合并 */
+  args: string | null;
+  /** 等待响应的调用方，共享会话时有多个 */
+  waiters: SessionWaiter[];
+  /** 发出请求的时间（毫秒时间戳），用于统计往返延迟 */
+  startTime: number;
+}
+
+/**
+ * 会话调用方接口
+ */
+interface SessionWaiter {
+  /** 所属会话索引，限流排队的请求被合并时改为合并后的会话 */
+  session: number;
+  resolve: (response: any) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout> | null;
+  signal: AbortSignal | null;
+  onAbort: (() => void) | null;
+}
+
+/**
+ * 协议校验配置项接口
+ */
+export interface ChecksumOptions {
+  /** 发送校验码的协议名称 */
+  protocol: string;
+  /** 校验码在请求数据中的字段路径，支持 "ctx.proto_checksum" 形式的嵌套字段 */
+  field: string;
+  /** 请求中的其它数据 */
+  data?: any;
+  /** 根据响应判断校验是否通过，默认 code 为空或 0 且 ok 不为 false 时通过 */
+  verify?: (response: any) => boolean;
+}
+
+/**
+ * Network配置项接口
+ */
+export interface NetworkOptions {
+  /** call() 的默认超时时间（毫秒），0 表示不超时 */
+  timeout?: number;
+  /** 自动重连策略，true 表示使用默认策略，默认不自动重连 */
+  reconnect?: ReconnectPolicy | boolean;
+  /** 连接未处于 forward 状态时的出站队列配置 */
+  outbound?: OutboundQueueOptions;
+  /** 握手完成后自动校验协议，默认不校验 */
+  checksum?: ChecksumOptions;
+  /** call/invoke 的客户端限流，默认不限流 */
+  rateLimit?: RateLimitOptions;
+  /** 合并参数结构相同的进行中请求的协议名称列表，默认不合并 */
+  dedupe?: string[];
+  /** 会话索引范围和并发会话数上限 */
+  session?: SessionOptions;
+  /** 延迟直方图分桶和定期快照配置 */
+  metrics?: MetricsOptions;
+  /** 空闲时发送心跳并检测对端失联，默认不开启 */
+  heartbeat?: HeartbeatOptions;
+  /** connect() 的默认连接配置项，logger 未设置时使用上面的日志器 */
+  connection?: SConnOptions;
+  /** 日志器，同时用于 SConn 和 WebSocket 连接，默认不输出 */
+  logger?: Logger;
+}
+
+/**
+ * call() 调用配置项接口
+ */
+export interface CallOptions {
+  /** 本次调用的超时时间（毫秒），覆盖默认值，0 表示不超时 */
+  timeout?: number;
+  /** 取消信号，触发后以 AbortError 拒绝并释放会话 */
+  signal?: AbortSignal;
+}
+
+/**
+ * Network生命周期事件定义
+ */
+export interface NetworkEvents {
+  /** SConn 状态机状态切换 */
+  stateChange: { from: string; to: string };
+  /** 握手完成，连接进入 forward 状态 */
+  connected: { id: number };
+  /** 发起一次自动重连 */
+  reconnecting: { attempt: number };
+  /** 断线重连成功，会话已恢复 */
+  reconnected: { id: number };
+  /** 连接不可用：主动关闭、传输断开或重连失败 */
+  disconnected: { reason: ConnectionCloseReason; error?: string };
+  /** 传输层错误、重连进入终止状态、请求处理器失败或更新循环异常 */
+  error: { error: Error };
+  /** 协议校验失败，客户端需要更新协议 */
+  protocolMismatch: { checksum: string; response: any };
+}
+
+/** 协议不匹配状态 */
+const PROTOCOL_MISMATCH = "protocol_mismatch";
+
+/**
+ * 默认的协议校验结果判断
+ * @param response 校验协议的响应
+ * @returns 是否通过
+ */
+function defaultVerify(response: any): boolean {
+  return !!response && !response.code && response.ok !== false;
+}
+
+/**
+ * 将值序列化为与对象键顺序无关的字符串，用于比较请求参数结构是否相同
+ * @param value 值
+ * @returns 序列化结果
+ */
+function stableStringify(value: any): string {
+  if (value === undefined) {
+    return "undefined";
+  }
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value);
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  const keys = Object.keys(value).filter(key => value[key] !== undefined).sort();
+  return `{${keys.map(key => `${JSON.stringify(key)}:${stableStringify(value[key])}`).join(',')}}`;
+}
+
+/**
+ * 按字段路径设置值，中间对象不存在时自动创建
+ * @param target 目标对象
+ * @param path 字段路径，如 "ctx.proto_checksum"
+ * @param value 值
+ */
+function setField(target: any, path: string, value: any): void {
+  const keys = path.split('.');
+  let obj = target;
+  for (let i = 0; i < keys.length - 1; i++) {
+    obj[keys[i]] = { ...obj[keys[i]] };
+    obj = obj[keys[i]];
+  }
+  obj[keys[keys.length - 1]] = value;
 }
 
 /**
@@ -31,6 +191,14 @@ interface ConnectionResult {
   error?: string;
 }
 
+/**
+ * 发送结果接口
+ */
+interface SendResult {
+  success: boolean;
+  error?: Error;
+}
+
 /**
  * 更新结果接口
  */
@@ -41,90 +209,257 @@ interface UpdateResult {
 }
 
 /**
- * 响应处理器类型
+ * 响应处理器类型，可以返回 Promise 异步回复
  */
-type ResponseHandler = (request: any) => any;
+type ResponseHandler<Req = any, Res = any> = (request: Req) => Res | Promise<Res>;
 
 /**
- * 回调函数类型
+ * 服务器推送监听函数类型
  */
-type CallbackFunction = (response: any) => void;
+type PushListener<Req = any> = (request: Req) => void;
 
 /**
  * Network类 - 高级网络通信管理器
  * 
  * 封装了sproto协议处理和SConn连接管理，提供简单易用的API
  * 支持异步请求-响应模式和消息处理器注册
+ * 类型参数 P 为协议映射表（可由 codegen 生成），用于检查协议名、请求和响应类型
  */
-export class Network {
-  private sessionIndex: number = 0;
+export class Network<P extends ProtocolMap<P> = AnyProtocols> {
+  private sessions: SessionAllocator;
   private requestSession: Map<number, SessionItem> = new Map();
   private responseHandle: Map<string, ResponseHandler> = new Map();
-  private connection: SConn | null = null;
+  private pushListeners: EventEmitter<{ [name: string]: any }> = new EventEmitter(
+    (name, error) => this.log.error('Push listener failed', { protocol: name, ...errorFields(error) })
+  );
+  private connection: ISConn | null = null;
 
-  private sp: any = null;
-  private client: any = null;
-  private clientRequest: ((name: string, args?: any, session?: number) => Uint8Array) | null = null;
-  private checksum: string = "";
+  private codec: Codec;
+  private packageName: string;
+  /** 协议热更新前的编解码器，仍有未完成的会话需要由它们解码 */
+  private legacyCodecs: Codec[] = [];
+  private timeout: number;
+  private reconnector: Reconnector | null;
+  private outbound: OutboundQueue;
+  private limiter: RateLimiter | null;
+  private dedupe: Set<string>;
+  /** 共享会话的请求标识到会话索引的映射 */
+  private sharedSessions: Map<string, number> = new Map();
+  private metrics: Metrics;
+  private heartbeatOptions: HeartbeatOptions | null;
+  private heartbeat: Heartbeat | null;
+  private logger: Logger | undefined;
+  private connectionOptions: SConnOptions;
+  private log: ComponentLogger;
+  private interceptors: InterceptorChain = new InterceptorChain();
+  private checksumOptions: ChecksumOptions | null;
+  /** 正在进行协议校验，其它请求暂存在出站队列中 */
+  private verifying: boolean = false;
+  /** 协议校验失败 */
+  private mismatch: boolean = false;
+  private events: EventEmitter<NetworkEvents> = new EventEmitter(
+    (event, error) => this.log.error('Event listener failed', { event, ...errorFields(error) })
+  );
+  private unbindConnection: (() => void) | null = null;
+  /** 传输层已断开但SConn尚未开始重连（仍处于forward状态） */
+  private linkDown: boolean = false;
+  private scheduler: Scheduler = new Scheduler(
+    () => this.update(),
+    (error) => this.events.emit('error', { error: toError(error) })
+  );
 
   /**
    * 创建新的 Network 实例
-   * @param protocolBuffer 协议二进制数据
-   * @param packageName 包名，默认为 "base.package"
+   * @param protocol sproto 协议二进制数据，或 JsonCodec/ProtobufCodec 等编解码器
+   * @param packageName sproto 包名，默认为 "base.package"，传入编解码器时忽略
+   * @param options 配置项
    */
-  constructor(protocolBuffer: Uint8Array, packageName: string = "base.package") {
-    this.initialize(Array.from(protocolBuffer), packageName);
-    const hashBytes = CryptUtils.md5(protocolBuffer);
-    this.checksum = Array.from(hashBytes, byte => byte.toString(16).padStart(2, '0')).join('');
+  constructor(protocol: Uint8Array | Codec, packageName: string = "base.package", options: NetworkOptions = {}) {
+    this.logger = options.logger;
+    this.connectionOptions = options.connection || {};
+    this.log = componentLogger(options.logger, 'Network');
+    this.timeout = options.timeout ?? DEF_CALL_TIMEOUT;
+    this.sessions = new SessionAllocator(options.session);
+    this.outbound = new OutboundQueue(options.outbound);
+    this.limiter = options.rateLimit ? new RateLimiter(options.rateLimit) : null;
+    this.dedupe = new Set(options.dedupe || []);
+    this.metrics = new Metrics(options.metrics);
+    this.heartbeatOptions = options.heartbeat || null;
+    this.heartbeat = options.heartbeat ? new Heartbeat(options.heartbeat) : null;
+    this.checksumOptions = options.checksum || null;
+    this.reconnector = options.reconnect
+      ? new Reconnector(options.reconnect === true ? {} : options.reconnect)
+      : null;
+    this.packageName = packageName;
+    this.codec = this.initialize(protocol, packageName);
   }
 
   public checksumValue(): string {
-    return this.checksum;
+    return this.codec.checksum();
   }
 
   /**
-   * 初始化sproto协议
-   * @param protocolBuffer 协议二进制数据
-   * @param packageName 协议包名
+   * 获取当前状态
+   * @returns 协议校验失败时为 protocol_mismatch，未连接时为 close，否则为SConn状态
    */
-  private initialize(protocolBuffer: number[], packageName: string): void {
+  public curState(): string {
+    if (this.mismatch) {
+      return PROTOCOL_MISMATCH;
+    }
+    return this.connection ? this.connection.curState() : "close";
+  }
+
+  /**
+   * 订阅生命周期事件或服务器推送
+   * 生命周期事件名之外的名称均视为协议名，同一协议可以有任意多个监听函数
+   * @param name 生命周期事件名或协议名称
+   * @param listener 监听函数
+   * @returns 取消订阅函数
+   */
+  public on<K extends keyof NetworkEvents>(name: K, listener: EventListener<NetworkEvents[K]>): () => void;
+  public on<K extends ProtocolName<P>>(name: K, listener: PushListener<RequestOf<P, K>>): () => void;
+  public on(name: string, listener: (payload: any) => void): () => void {
+    if (NETWORK_EVENT_NAMES.indexOf(name) !== -1) {
+      return this.events.on(name as keyof NetworkEvents, listener);
+    }
+    return this.pushListeners.on(name, listener);
+  }
+
+  /**
+   * 取消订阅生命周期事件或服务器推送
+   * @param name 生命周期事件名或协议名称
+   * @param listener 监听函数
+   */
+  public off<K extends keyof NetworkEvents>(name: K, listener: EventListener<NetworkEvents[K]>): void;
+  public off<K extends ProtocolName<P>>(name: K, listener: PushListener<RequestOf<P, K>>): void;
+  public off(name: string, listener: (payload: any) => void): void {
+    if (NETWORK_EVENT_NAMES.indexOf(name) !== -1) {
+      this.events.off(name as keyof NetworkEvents, listener);
+      return;
+    }
+    this.pushListeners.off(name, listener);
+  }
+
+  /**
+   * 初始化编解码器
+   * @param protocol sproto 协议二进制数据或编解码器
+   * @param packageName sproto 包名
+   * @returns 编解码器
+   */
+  private initialize(protocol: Uint8Array | Codec, packageName: string): Codec {
+    if (!(protocol instanceof Uint8Array)) {
+      return protocol;
+    }
     try {
-      // 创建 sproto 实例
-      this.sp = sproto.createNew(protocolBuffer);
-      if (!this.sp) {
-        throw new Error('Failed to create sproto instance');
+      return new SprotoCodec(protocol, packageName);
+    } catch (error) {
+      this.log.error('Failed to initialize Network', errorFields(error));
+      throw error;
+    }
+  }
+
+  /**
+   * 热更新协议，不断开连接
+   * 替换编解码器并重新计算校验码，失败时保留原协议；更新前发出的请求仍由原编解码器解码响应
+   * @param protocol 新的 sproto 协议二进制数据或编解码器
+   * @param packageName sproto 包名，默认沿用当前包名
+   */
+  public reloadProtocol(protocol: Uint8Array | Codec, packageName?: string): void {
+    const oldCodec = this.codec;
+    const name = packageName || this.packageName;
+    this.codec = this.initialize(protocol, name);
+    this.packageName = name;
+
+    if (this.hasSessionsFor(oldCodec)) {
+      this.legacyCodecs.push(oldCodec);
+    }
+  }
+
+  /**
+   * 是否还有由指定编解码器编码、尚未完成的会话
+   * @param codec 编解码器
+   * @returns 是否存在
+   */
+  private hasSessionsFor(codec: Codec): boolean {
+    for (const sessionItem of Array.from(this.requestSession.values())) {
+      if (sessionItem.codec === codec) {
+        return true;
       }
+    }
+    return false;
+  }
+
+  /**
+   * 移除已没有未完成会话的旧编解码器
+   */
+  private pruneLegacyCodecs(): void {
+    if (this.legacyCodecs.length > 0) {
+      this.legacyCodecs = this.legacyCodecs.filter(codec => this.hasSessionsFor(codec));
+    }
+  }
 
-      // 创建 host
-      this.client = this.sp.host(packageName);
-      if (!this.client) {
-        throw new Error('Failed to create sproto host');
+  /**
+   * 使用当前编解码器解码消息，失败时依次尝试协议热更新前的编解码器
+   * 响应按发出请求时的编解码器解码：JSON、protobuf 等编解码器总能解码任意会话的响应，
+   * 由其它编解码器解码出的响应需要重新解码
+   * @param message 消息数据
+   * @returns 解码结果和解码所用的编解码器
+   */
+  private decode(message: Uint8Array): { codec: Codec; decoded: DecodedMessage } | null {
+    const lookup = (session: number) => {
+      const sessionItem = this.requestSession.get(session);
+      return sessionItem ? sessionItem.name : undefined;
+    };
+
+    let result: { codec: Codec; decoded: DecodedMessage } | null = null;
+    try {
+      const decoded = this.codec.decode(message, lookup);
+      if (decoded) {
+        result = { codec: this.codec, decoded };
+      } else if (this.legacyCodecs.length === 0) {
+        return null;
+      }
+    } catch (error) {
+      if (this.legacyCodecs.length === 0) {
+        throw error;
       }
+    }
 
-      // 创建 attach 函数
-      this.clientRequest = this.client.attach(this.sp);
-      if (!this.clientRequest) {
-        throw new Error('Failed to create sproto attach function');
+    // 当前协议不认识该会话，说明是热更新前发出的请求的响应
+    for (let i = 0; !result && i < this.legacyCodecs.length; i++) {
+      const codec = this.legacyCodecs[i];
+      try {
+        const decoded = codec.decode(message, lookup);
+        if (decoded) {
+          result = { codec, decoded };
+        }
+      } catch (error) {
+        // 继续尝试下一个
       }
+    }
 
-    } catch (error) {
-      console.error('Failed to initialize Network:', error);
-      throw error;
+    if (result && result.decoded.type === "RESPONSE") {
+      const sessionItem = this.requestSession.get(result.decoded.session);
+      if (sessionItem && sessionItem.codec !== result.codec) {
+        const decoded = sessionItem.codec.decode(message, lookup);
+        return decoded ? { codec: sessionItem.codec, decoded } : null;
+      }
     }
+    return result;
   }
 
   /**
    * 连接到指定的WebSocket服务器
    * @param url WebSocket服务器URL
-   * @param targetServer 目标服务器标识
+   * @param options 目标服务器标识，或覆盖构造时 connection 配置的连接配置项
    * @returns 连接结果
    */
-  public connect(url: string, targetServer: string): ConnectionResult {
-    // 重置请求会话
-    this.requestSession.clear();
+  public connect(url: string, options: string | SConnOptions = {}): ConnectionResult {
+    this.resetConnection();
 
     try {
-      const result = connect(url, targetServer);
+      const overrides = typeof options === "string" ? { targetServer: options } : options;
+      const result = connect(url, { logger: this.logger, ...this.connectionOptions, ...overrides });
 
       if (!result.connection) {
         return {
@@ -132,7 +467,7 @@ export class Network {
           error: result.error || 'Connection failed'
         };
       } else {
-        this.connection = result.connection;
+        this.useConnection(result.connection);
         return { success: true };
       }
     } catch (error) {
@@ -144,61 +479,281 @@ export class Network {
   }
 
   /**
-   * 分发接收到的消息
-   * 根据消息类型（REQUEST/RESPONSE）进行相应处理
-   * @param response 接收到的消息数据
+   * 使用已有的连接，如 Multiplexer 创建的逻辑通道
+   * 多个 Network 可以通过不同通道共享一个 SConn，各自拥有会话索引、处理器和生命周期
+   * @param connection 实现 ISConn 接口的连接
+   */
+  public attach(connection: ISConn): void {
+    this.resetConnection();
+    this.useConnection(connection);
+  }
+
+  /**
+   * 拒绝上一个连接上所有未完成的请求会话，重置连接相关状态
+   */
+  private resetConnection(): void {
+    this.rejectAllSessions('closed');
+    this.outbound.clear();
+    if (this.limiter) {
+      this.limiter.clear();
+    }
+    this.verifying = false;
+    this.mismatch = false;
+    if (this.reconnector) {
+      this.reconnector.reset();
+    }
+  }
+
+  /**
+   * 切换到新连接并绑定其事件
+   * @param connection 新连接
+   */
+  private useConnection(connection: ISConn): void {
+    if (this.unbindConnection) {
+      this.unbindConnection();
+    }
+    this.connection = connection;
+    this.linkDown = false;
+    if (this.heartbeat) {
+      this.heartbeat.reset();
+    }
+    this.unbindConnection = this.bindConnection(connection);
+  }
+
+  /**
+   * 将SConn的状态切换和传输层事件转换为Network生命周期事件
+   * @param connection SConn实例
+   * @returns 解除绑定函数
    */
-  private dispatch(response: Uint8Array): void {
-    if (!this.client) {
-      throw new Error('Client not initialized');
+  private bindConnection(connection: ISConn): () => void {
+    const offState = connection.on('stateChange', ({ from, to }) => {
+      this.linkDown = false;
+      this.events.emit('stateChange', { from, to });
+
+      if (to === "forward") {
+        if (this.heartbeat) {
+          this.heartbeat.reset();
+        }
+        this.events.emit(from === "reconnect" ? 'reconnected' : 'connected', { id: connection.vId });
+        // 重连恢复的是同一个会话，只在新连接握手后校验
+        if (from === "newconnect" && this.checksumOptions) {
+          this.verifyChecksum(this.checksumOptions);
+        }
+      } else if (RECONNECT_ERROR_STATES.indexOf(to) !== -1) {
+        if (this.reconnector) {
+          this.reconnector.stop();
+        }
+        this.events.emit('error', { error: new Error(to) });
+        this.events.emit('disconnected', { reason: 'reconnect_failed', error: to });
+      } else if (to === "connect_timeout") {
+        this.events.emit('error', { error: connection.lastError() || new Error(to) });
+        this.events.emit('disconnected', { reason: 'connect_timeout', error: to });
+      }
+    });
+
+    const offClose = connection.on('close', ({ byPeer }) => {
+      if (byPeer) {
+        this.linkDown = true;
+      }
+      // 重连过程中的断开不重复通知，由重连结果决定
+      if (byPeer && connection.curState() !== "reconnect") {
+        this.events.emit('disconnected', { reason: 'connect_break' });
+      }
+    });
+
+    const offError = connection.on('error', ({ error }) => {
+      this.events.emit('error', { error: new Error(error) });
+    });
+
+    return () => {
+      offState();
+      offClose();
+      offError();
+    };
+  }
+
+  /**
+   * 发送协议校验码并检查结果
+   * 校验期间其它请求进入出站队列；校验失败进入 protocol_mismatch 状态，
+   * 校验请求本身出错（如超时）时通过 error 事件通知并恢复正常发送
+   * @param options 协议校验配置项
+   */
+  private verifyChecksum(options: ChecksumOptions): void {
+    const data = { ...options.data };
+    setField(data, options.field, this.checksumValue());
+
+    this.verifying = true;
+    this.call(options.protocol as ProtocolName<P>, data).then((response) => {
+      this.verifying = false;
+      const verify = options.verify || defaultVerify;
+      if (!verify(response)) {
+        this.onProtocolMismatch(response);
+        return;
+      }
+      this.flushOutbound();
+    }, (error) => {
+      this.verifying = false;
+      this.events.emit('error', { error: toError(error) });
+      this.flushOutbound();
+    });
+  }
+
+  /**
+   * 协议校验失败：关闭连接，拒绝所有请求并通知
+   * @param response 校验协议的响应
+   */
+  private onProtocolMismatch(response: any): void {
+    const from = this.curState();
+    this.mismatch = true;
+
+    if (this.unbindConnection) {
+      this.unbindConnection();
+      this.unbindConnection = null;
+    }
+    if (this.connection) {
+      this.connection.close();
     }
 
+    const checksum = this.checksumValue();
+    const error = new ProtocolMismatchError(checksum);
+    for (const session of Array.from(this.requestSession.keys())) {
+      this.rejectSession(session, error);
+    }
+    this.outbound.clear();
+    if (this.limiter) {
+      this.limiter.clear();
+    }
+
+    this.events.emit('stateChange', { from, to: PROTOCOL_MISMATCH });
+    this.events.emit('protocolMismatch', { checksum, response });
+  }
+
+  /**
+   * 分发接收到的消息
+   * 根据消息类型（REQUEST/RESPONSE）进行相应处理
+   * @param message 接收到的消息数据
+   */
+  private dispatch(message: Uint8Array): void {
     try {
-      // 使用sproto客户端分发消息
-      const responseArray = Array.from(response);
-      console.log("responseArray", responseArray);
-      const dispatchResult = this.client.dispatch(responseArray);
-      if (!dispatchResult) {
-        console.warn('Dispatch returned null or undefined');
+      this.log.debug('received message', { bytes: message.length });
+      const result = this.decode(message);
+      if (!result) {
+        this.log.warn('Dispatch returned null or undefined', { bytes: message.length });
         return;
       }
 
-      if (dispatchResult.type === "RESPONSE") {
-        const session = dispatchResult.session || 0;
-        const responseData = dispatchResult.result || dispatchResult;
+      const decoded = result.decoded;
+      if (decoded.type === "RESPONSE") {
+        const session = decoded.session;
 
+        // 会话已超时或不存在时直接忽略迟到的响应
         const sessionItem = this.requestSession.get(session);
-        if (sessionItem && sessionItem.handle) {
-          (sessionItem.handle as CallbackFunction)(responseData);
-          this.requestSession.delete(session);
+        if (!sessionItem) {
+          return;
+        }
+
+        let data: any;
+        try {
+          data = this.interceptors.runIncoming({ kind: 'response', name: sessionItem.name, data: decoded.data, session });
+        } catch (error) {
+          this.rejectSession(session, toError(error));
+          return;
+        }
+        this.metrics.recordResponse(sessionItem.name, message.length, Date.now() - sessionItem.startTime);
+        this.resolveSession(session, data);
+      } else if (decoded.type === "REQUEST") {
+        const name = decoded.name;
+        let request: any;
+        try {
+          request = this.interceptors.runIncoming({ kind: 'request', name, data: decoded.data, session: decoded.session });
+        } catch (error) {
+          this.events.emit('error', { error: new HandlerError(name, decoded.session, error) });
+          return;
         }
-      } else if (dispatchResult.type === "REQUEST") {
-        const name = dispatchResult.pname || dispatchResult.name;
-        const request = dispatchResult.result || dispatchResult.data;
-
-        if (name) {
-          const handle = this.responseHandle.get(name);
-          if (handle) {
-            const data = handle(request);
-            if (this.connection && this.clientRequest) {
-              // 使用 clientRequest 编码响应数据
-              const encodedData = this.clientRequest(name, data);
-              this.connection.sendMsg(encodedData);
-            }
-          }
+
+        // 先通知所有推送监听函数，再由唯一的响应处理器回复
+        this.pushListeners.emit(name, request);
+
+        const handle = this.responseHandle.get(name);
+        if (handle) {
+          // 请求不带会话或协议没有 response 定义时，服务器不等待回复
+          const codec = decoded.session !== undefined && result.codec.hasResponse(name) ? result.codec : null;
+          this.handleRequest(decoded, request, handle, codec);
         }
       }
     } catch (error) {
-      console.warn('Failed to dispatch response:', error);
+      this.log.warn('Failed to dispatch response', errorFields(error));
       // 不抛出错误，避免中断整个流程
     }
   }
 
+  /**
+   * 调用请求处理器并回复服务器
+   * 处理器返回 Promise 时等待其完成后再回复，回复使用请求自带的会话，
+   * 多个处理器并发挂起时互不影响；处理器失败时通过 error 事件通知且不回复
+   * @param decoded 解码得到的服务器请求
+   * @param request 经过拦截器的请求数据
+   * @param handle 处理器
+   * @param codec 编码回复的编解码器，为空时只调用处理器不回复
+   */
+  private handleRequest(decoded: DecodedRequest, request: any, handle: ResponseHandler, codec: Codec | null): void {
+    const connection = this.connection;
+    const onError = (error: unknown) => {
+      this.events.emit('error', { error: new HandlerError(decoded.name, decoded.session, error) });
+    };
+
+    let result: any;
+    try {
+      result = handle(request);
+    } catch (error) {
+      onError(error);
+      return;
+    }
+
+    if (!result || typeof result.then !== 'function') {
+      this.reply(connection, decoded, result, codec);
+      return;
+    }
+
+    Promise.resolve(result).then(
+      (data) => this.reply(connection, decoded, data, codec),
+      onError
+    );
+  }
+
+  /**
+   * 编码并发送对服务器请求的回复，回复中回显服务器请求的会话
+   * @param connection 收到请求时的连接，连接已更换或关闭时丢弃回复
+   * @param decoded 解码得到的服务器请求
+   * @param data 回复数据
+   * @param codec 解码该请求的编解码器，为空时不回复
+   */
+  private reply(connection: ISConn | null, decoded: DecodedRequest, data: any, codec: Codec | null): void {
+    if (!codec || !connection || connection !== this.connection) {
+      return;
+    }
+
+    try {
+      const encodedData = codec.encodeResponse(decoded, data);
+      connection.sendMsg(encodedData);
+    } catch (error) {
+      this.log.warn('Failed to send reply', { protocol: decoded.name, ...errorFields(error) });
+    }
+  }
+
   /**
    * 更新网络连接状态
    * @returns 更新结果
    */
   public update(): UpdateResult {
+    if (this.mismatch) {
+      return {
+        success: false,
+        error: 'protocol checksum mismatch',
+        status: PROTOCOL_MISMATCH
+      };
+    }
+
     if (!this.connection) {
       return {
         success: false,
@@ -209,6 +764,12 @@ export class Network {
     try {
       const updateResult = this.connection.update();
 
+      // 握手、重连或协议校验完成后按顺序发出排队的请求
+      this.flushOutbound();
+      this.releaseThrottled();
+      this.metrics.tick(Date.now());
+      this.checkHeartbeat(Date.now());
+
       if (updateResult.success) {
         // 清空消息缓冲区
         let outputBuffer: Uint8Array[] = [];
@@ -222,12 +783,22 @@ export class Network {
         }
       }
 
+      // 连接断开或重连失败时，未完成的请求不会再收到响应
+      if (updateResult.status === "connect_break") {
+        this.handleBreak();
+      } else if (updateResult.status === "reconnect_error") {
+        this.rejectAllSessions('reconnect_failed');
+      } else if (updateResult.status === "connect_timeout") {
+        this.rejectAllSessions('connect_timeout');
+      }
+
       return {
         success: updateResult.success,
         error: updateResult.error,
         status: updateResult.status
       };
     } catch (error) {
+      this.events.emit('error', { error: toError(error) });
       return {
         success: false,
         error: String(error)
@@ -235,57 +806,549 @@ export class Network {
     }
   }
 
+  /**
+   * 处理连接断开
+   * 未开启自动重连时直接拒绝所有未完成的请求；
+   * 开启时按重连策略驱动 SConn.reconnect 恢复会话，放弃后再拒绝请求
+   */
+  private handleBreak(): void {
+    const reconnector = this.reconnector;
+    if (!reconnector) {
+      this.rejectAllSessions('connect_break');
+      return;
+    }
+
+    // 已放弃重连，之后发起的请求同样无法完成
+    if (reconnector.getPhase() === 'stopped') {
+      this.rejectAllSessions('reconnect_failed');
+      return;
+    }
+
+    const now = Date.now();
+    if (!reconnector.onBreak(now)) {
+      this.giveUpReconnect();
+      return;
+    }
+
+    if (reconnector.isDue(now)) {
+      this.tryReconnect();
+    }
+  }
+
+  /**
+   * 检查心跳：连接空闲时发送心跳，对端失联时断开底层连接
+   * 断开后下一次 update() 报告 connect_break，按传输断开处理（开启 reconnect 时自动重连）
+   * @param now 当前时间（毫秒）
+   */
+  private checkHeartbeat(now: number): void {
+    const connection = this.connection;
+    const heartbeat = this.heartbeat;
+    const options = this.heartbeatOptions;
+    if (!connection || !heartbeat || !options || connection.curState() !== "forward" || this.linkDown) {
+      return;
+    }
+
+    const action = heartbeat.tick(now, connection.traffic());
+    if (action === 'ping') {
+      // 协议校验期间不发送心跳，心跳也不进入出站队列，避免重连后补发过期的心跳
+      if (this.canSend(connection)) {
+        this.sendHeartbeat(connection, options);
+      }
+    } else if (action === 'timeout') {
+      this.log.warn('heartbeat timeout, peer unresponsive', { id: connection.vId });
+      this.linkDown = true;
+      connection.abort('heartbeat_timeout');
+      this.events.emit('disconnected', { reason: 'connect_break', error: 'heartbeat_timeout' });
+    }
+  }
+
+  /**
+   * 发送心跳
+   * 心跳协议按普通请求发出；原始心跳帧直接交给连接发出，同样计入 goscon 的发送字节数和重传缓存
+   * @param connection 连接
+   * @param options 心跳配置项
+   */
+  private sendHeartbeat(connection: ISConn, options: HeartbeatOptions): void {
+    if (options.protocol) {
+      const name = options.protocol as ProtocolName<P>;
+      if (this.codec.hasResponse(options.protocol)) {
+        this.call(name, options.data).catch((error) => {
+          this.log.debug('heartbeat failed', errorFields(error));
+        });
+      } else {
+        this.invoke(name, options.data);
+      }
+    } else if (options.frame) {
+      connection.sendMsg(options.frame);
+    }
+  }
+
+  /**
+   * 发起一次断线重连
+   */
+  private tryReconnect(): void {
+    const connection = this.connection;
+    const reconnector = this.reconnector;
+    if (!connection || !reconnector) {
+      return;
+    }
+
+    // 只有 forward/reconnect 状态可以恢复会话，其它状态重试没有意义
+    const stateName = connection.curState();
+    if (stateName !== "forward" && stateName !== "reconnect") {
+      this.giveUpReconnect();
+      return;
+    }
+
+    reconnector.markAttempt();
+    this.events.emit('reconnecting', { attempt: reconnector.getAttempts() });
+    const result = connection.reconnect((success: boolean) => {
+      // 失败时 SConn 会进入 reconnect_*_error 状态，由 update() 统一处理
+      if (success && this.reconnector) {
+        this.reconnector.reset();
+      }
+    });
+
+    if (!result.success && !reconnector.retryLater(Date.now())) {
+      this.giveUpReconnect();
+    }
+  }
+
+  /**
+   * 放弃自动重连，拒绝未完成的请求并通知连接不可用
+   */
+  private giveUpReconnect(): void {
+    if (this.reconnector) {
+      this.reconnector.stop();
+    }
+    this.rejectAllSessions('reconnect_failed');
+    this.events.emit('disconnected', { reason: 'reconnect_failed' });
+  }
+
+  /**
+   * 获取按协议统计的 RPC 指标
+   * 包括请求次数、错误和超时次数、往返延迟直方图以及编码后的请求/响应大小
+   * @returns 指标快照
+   */
+  public getMetrics(): MetricsSnapshot {
+    return this.metrics.snapshot();
+  }
+
+  /**
+   * 添加请求/响应拦截器
+   * 发出的数据在编码前按添加顺序经过拦截器，
+   * 收到的 RESPONSE/REQUEST 在交给会话回调或处理器前按添加的相反顺序经过拦截器
+   * @param interceptor 拦截器
+   * @returns 移除该拦截器的函数
+   */
+  public use(interceptor: Interceptor): () => void {
+    return this.interceptors.use(interceptor);
+  }
+
+  /**
+   * 启动内置更新循环，由 Network 自行周期性调用 update()
+   * 更新过程中的异常通过 error 事件通知
+   * @param options 调度配置项，mode 为 manual 时不调度，由调用方自行调用 update()
+   */
+  public start(options: ScheduleOptions = {}): void {
+    this.scheduler.start(options);
+  }
+
+  /**
+   * 停止内置更新循环
+   */
+  public stop(): void {
+    this.scheduler.stop();
+  }
+
   /**
    * 发送请求消息到服务器
+   * 编码后先经过限流，再按连接状态直接发送或进入出站队列
    * @param name 协议名称
    * @param data 请求数据
    * @param sessionIndex 会话索引
-   * @returns 是否发送成功
+   * @returns 发送结果，排队成功也视为成功
    */
-  private request(name: string, data: any, sessionIndex?: number): boolean {
-    if (!this.clientRequest || !this.connection) {
-      return false;
+  private request(name: string, data: any, sessionIndex?: number): SendResult {
+    const connection = this.connection;
+    if (this.mismatch) {
+      return { success: false, error: new ProtocolMismatchError(this.checksumValue()) };
+    }
+    if (!connection) {
+      return { success: false, error: new MessageDroppedError('connection_unavailable', name, sessionIndex) };
     }
 
+    const kind = sessionIndex !== undefined ? 'call' : 'invoke';
+    let requestData: Uint8Array;
     try {
-      const requestData = this.clientRequest(name, data, sessionIndex);
-      this.connection.sendMsg(requestData);
-      return true;
+      const finalData = this.interceptors.runOutgoing({ kind, name, data, session: sessionIndex });
+      requestData = this.codec.encodeRequest(name, finalData, sessionIndex);
     } catch (error) {
-      console.error('Failed to send request:', error);
-      return false;
+      this.log.error('Failed to build request', { protocol: name, ...errorFields(error) });
+      return { success: false, error: toError(error) };
+    }
+    this.metrics.recordRequest(name, requestData.length, kind);
+
+    // 协议校验期间只有校验请求可以直接发出，且不受限流
+    const isChecksum = this.verifying && !!this.checksumOptions && name === this.checksumOptions.protocol;
+    const item: OutboundItem = { name, data: requestData, session: sessionIndex };
+    if (this.limiter && !isChecksum) {
+      return this.throttle(this.limiter, item);
+    }
+    return this.send(item, isChecksum);
+  }
+
+  /**
+   * 发送已编码的请求，连接不能直接发送时进入出站队列
+   * @param item 出站消息
+   * @param force 是否忽略协议校验直接发送
+   * @returns 发送结果，排队成功也视为成功
+   */
+  private send(item: OutboundItem, force: boolean = false): SendResult {
+    const connection = this.connection;
+    if (!connection) {
+      return { success: false, error: new MessageDroppedError('connection_unavailable', item.name, item.session) };
+    }
+
+    const stateName = connection.curState();
+    if (force || this.canSend(connection)) {
+      this.flushOutbound();
+      connection.sendMsg(item.data);
+      return { success: true };
+    }
+
+    if (stateName !== "forward" && stateName !== "newconnect" && stateName !== "reconnect") {
+      return { success: false, error: new MessageDroppedError('connection_unavailable', item.name, item.session) };
+    }
+
+    const result = this.outbound.push(item, item.session !== undefined);
+    for (const dropped of result.dropped) {
+      this.failItem(dropped, new MessageDroppedError('evicted', dropped.name, dropped.session));
+    }
+    if (!result.accepted) {
+      return { success: false, error: new MessageDroppedError('queue_full', item.name, item.session) };
+    }
+    return { success: true };
+  }
+
+  /**
+   * 按限流器检查请求，获得令牌时发送，否则按策略排队、拒绝或合并
+   * @param limiter 限流器
+   * @param item 出站消息
+   * @returns 发送结果，排队成功也视为成功
+   */
+  private throttle(limiter: RateLimiter, item: OutboundItem): SendResult {
+    const policy = limiter.policyOf(item.name);
+    // 同一协议已有请求在排队时，可排队的新请求排在后面以保持顺序
+    const mustWait = policy !== 'reject' && limiter.hasPending(item.name);
+    if (!mustWait && limiter.tryAcquire(item.name, item.data.length, Date.now())) {
+      return this.send(item);
+    }
+
+    if (policy === 'reject') {
+      return { success: false, error: new MessageDroppedError('rate_limited', item.name, item.session) };
+    }
+
+    const result = limiter.enqueue(item);
+    for (const dropped of result.dropped) {
+      this.coalesceItem(dropped, item);
+    }
+    if (!result.accepted) {
+      return { success: false, error: new MessageDroppedError('queue_full', item.name, item.session) };
+    }
+    return { success: true };
+  }
+
+  /**
+   * 排队的请求被同一协议的新请求合并替换：参数结构相同时被替换请求的调用方改为等待新请求的响应
+   * 被替换的 invoke 没有调用方，直接丢弃；新请求没有会话（invoke）或参数不同时响应不属于被替换的请求，
+   * 被替换的 call 以 coalesced 拒绝
+   * @param dropped 被替换的请求
+   * @param survivor 替换它的新请求
+   */
+  private coalesceItem(dropped: OutboundItem, survivor: OutboundItem): void {
+    if (dropped.session === undefined) {
+      return;
+    }
+    const from = this.requestSession.get(dropped.session);
+    const to = survivor.session !== undefined ? this.requestSession.get(survivor.session) : undefined;
+    if (!from) {
+      return;
+    }
+    if (!to || survivor.session === undefined || from.args !== to.args) {
+      this.failItem(dropped, new MessageDroppedError('coalesced', dropped.name, dropped.session));
+      return;
+    }
+
+    this.requestSession.delete(dropped.session);
+    if (from.key !== null && this.sharedSessions.get(from.key) === dropped.session) {
+      this.sharedSessions.delete(from.key);
+    }
+    for (const waiter of from.waiters) {
+      waiter.session = survivor.session;
+      to.waiters.push(waiter);
+    }
+    this.pruneLegacyCodecs();
+  }
+
+  /**
+   * 发送已获得令牌的排队请求
+   */
+  private releaseThrottled(): void {
+    if (!this.limiter || !this.limiter.hasPending()) {
+      return;
+    }
+    for (const item of this.limiter.release(Date.now())) {
+      const result = this.send(item);
+      if (!result.success) {
+        this.failItem(item, result.error || new MessageDroppedError('connection_unavailable', item.name, item.session));
+      }
+    }
+  }
+
+  /**
+   * 连接是否可以直接发送请求：处于 forward 状态、传输层未断开且不在协议校验中
+   * @param connection SConn实例
+   * @returns 是否可以直接发送
+   */
+  private canSend(connection: ISConn): boolean {
+    return connection.curState() === "forward" && !this.linkDown && !this.verifying;
+  }
+
+  /**
+   * 连接可以直接发送时，按顺序发出出站队列中的请求
+   */
+  private flushOutbound(): void {
+    const connection = this.connection;
+    if (!connection || this.outbound.isEmpty() || !this.canSend(connection)) {
+      return;
+    }
+    for (const item of this.outbound.drain()) {
+      connection.sendMsg(item.data);
+    }
+  }
+
+  /**
+   * 已接受的消息未能发出时通知调用方：有会话时拒绝对应的 call，否则通过 error 事件通知
+   * @param item 未能发出的消息
+   * @param error 错误对象
+   */
+  private failItem(item: OutboundItem, error: Error): void {
+    if (item.session !== undefined) {
+      this.rejectSession(item.session, error);
+    } else {
+      this.events.emit('error', { error });
+    }
+  }
+
+  /**
+   * 释放会话：取消共享登记，释放所有调用方的定时器和取消监听
+   * @param sessionItem 会话项
+   */
+  private releaseSession(sessionItem: SessionItem): void {
+    if (sessionItem.key !== null) {
+      this.sharedSessions.delete(sessionItem.key);
+    }
+    for (const waiter of sessionItem.waiters) {
+      this.releaseWaiter(waiter);
+    }
+    this.pruneLegacyCodecs();
+  }
+
+  /**
+   * 释放调用方占用的定时器和取消监听，避免闭包泄漏
+   * @param waiter 调用方
+   */
+  private releaseWaiter(waiter: SessionWaiter): void {
+    if (waiter.timer) {
+      clearTimeout(waiter.timer);
+      waiter.timer = null;
+    }
+    if (waiter.signal && waiter.onAbort) {
+      waiter.signal.removeEventListener('abort', waiter.onAbort);
+    }
+    waiter.signal = null;
+    waiter.onAbort = null;
+  }
+
+  /**
+   * 完成会话：清理定时器并以同一个响应完成所有调用方
+   * @param session 会话索引
+   * @param response 响应数据
+   */
+  private resolveSession(session: number, response: any): void {
+    const sessionItem = this.requestSession.get(session);
+    if (!sessionItem) {
+      return;
+    }
+
+    this.requestSession.delete(session);
+    this.releaseSession(sessionItem);
+    for (const waiter of sessionItem.waiters) {
+      waiter.resolve(response);
+    }
+  }
+
+  /**
+   * 以错误结束会话：清理定时器并拒绝所有调用方的Promise
+   * @param session 会话索引
+   * @param error 错误对象
+   */
+  private rejectSession(session: number, error: Error): void {
+    const sessionItem = this.requestSession.get(session);
+    if (!sessionItem) {
+      return;
+    }
+
+    this.requestSession.delete(session);
+    this.releaseSession(sessionItem);
+    this.metrics.recordError(sessionItem.name, error instanceof RequestTimeoutError);
+    // 尚未发出的请求不再发送
+    this.outbound.remove(session);
+    if (this.limiter) {
+      this.limiter.remove(session);
+    }
+    for (const waiter of sessionItem.waiters) {
+      waiter.reject(error);
+    }
+  }
+
+  /**
+   * 以错误结束单个调用方（超时或取消），会话的最后一个调用方结束时结束整个会话
+   * @param session 会话索引
+   * @param waiter 调用方
+   * @param error 错误对象
+   */
+  private rejectWaiter(session: number, waiter: SessionWaiter, error: Error): void {
+    const sessionItem = this.requestSession.get(session);
+    if (!sessionItem) {
+      return;
+    }
+
+    const index = sessionItem.waiters.indexOf(waiter);
+    if (index === -1) {
+      return;
+    }
+    if (sessionItem.waiters.length === 1) {
+      this.rejectSession(session, error);
+      return;
+    }
+
+    sessionItem.waiters.splice(index, 1);
+    this.releaseWaiter(waiter);
+    waiter.reject(error);
+  }
+
+  /**
+   * 以连接关闭错误拒绝所有未完成的会话
+   * @param reason 关闭原因
+   */
+  private rejectAllSessions(reason: ConnectionCloseReason): void {
+    for (const [session, sessionItem] of Array.from(this.requestSession)) {
+      this.rejectSession(session, new ConnectionClosedError(reason, sessionItem.name, session));
+    }
+  }
+
+  /**
+   * 为调用方设置超时和取消监听
+   * @param waiter 调用方
+   * @param name 协议名称
+   * @param timeout 超时时间（毫秒），0 表示不超时
+   * @param signal 取消信号
+   */
+  private watchWaiter(waiter: SessionWaiter, name: string, timeout: number, signal?: AbortSignal): void {
+    if (timeout > 0) {
+      waiter.timer = setTimeout(() => {
+        this.rejectWaiter(waiter.session, waiter, new RequestTimeoutError(name, waiter.session, timeout));
+      }, timeout);
+    }
+
+    if (signal) {
+      waiter.signal = signal;
+      waiter.onAbort = () => {
+        this.rejectWaiter(waiter.session, waiter, new AbortError(name, waiter.session));
+      };
+      signal.addEventListener('abort', waiter.onAbort);
     }
   }
 
   /**
    * 发送请求并等待响应
+   * 开启 dedupe 的协议在已有参数结构相同的请求未完成时不再发送，共享同一个会话和响应
    * @param name 协议名称
    * @param data 请求数据（可选）
-   * @returns Promise<any>
+   * @param options 调用配置项（可选）
+   * @returns 响应数据
    */
-  public call(name: string, data?: any): Promise<any> {
-    const sessionIndex = this.sessionIndex;
-    this.sessionIndex = sessionIndex + 1;
+  public call<K extends ProtocolName<P>>(name: K, data?: RequestOf<P, K>, options: CallOptions = {}): Promise<ResponseOf<P, K>> {
+    const timeout = options.timeout ?? this.timeout;
+    const signal = options.signal;
+
+    const key = this.dedupe.has(name) ? `${name}:${stableStringify(data)}` : null;
+    const shared = key !== null ? this.sharedSessions.get(key) : undefined;
+    if (shared !== undefined) {
+      return this.joinSession(shared, name, timeout, signal);
+    }
 
-    if (this.requestSession.has(sessionIndex)) {
-      throw new Error(`Session ${sessionIndex} already exists`);
+    const sessionIndex = this.sessions.allocate(this.requestSession);
+    if (sessionIndex === null) {
+      return Promise.reject(new SessionLimitError(name, this.sessions.limit()));
     }
 
     const sessionItem: SessionItem = {
       name: name,
-      handle: null
+      codec: this.codec,
+      key: key,
+      args: this.limiter && this.limiter.policyOf(name) === 'coalesce' ? stableStringify(data) : null,
+      waiters: [],
+      startTime: Date.now()
     };
     this.requestSession.set(sessionIndex, sessionItem);
+    if (key !== null) {
+      this.sharedSessions.set(key, sessionIndex);
+    }
 
     // 返回Promise实现异步请求-响应模式
     return new Promise((resolve, reject) => {
-      sessionItem.handle = (response: any) => {
-        resolve(response);
-      };
+      const waiter: SessionWaiter = { session: sessionIndex, resolve, reject, timer: null, signal: null, onAbort: null };
+      sessionItem.waiters.push(waiter);
 
-      if (!this.request(name, data, sessionIndex)) {
-        reject(new Error('Failed to send request'));
+      // 已取消的信号不再发送请求
+      if (signal && signal.aborted) {
+        this.rejectSession(sessionIndex, new AbortError(name, sessionIndex));
+        return;
+      }
+
+      const result = this.request(name, data, sessionIndex);
+      if (!result.success) {
+        this.rejectSession(sessionIndex, result.error || new Error('Failed to send request'));
+        return;
       }
+
+      this.watchWaiter(waiter, name, timeout, signal);
+    });
+  }
+
+  /**
+   * 加入已在进行中的会话，与其它调用方共享响应
+   * 各调用方的超时和取消互不影响，最后一个调用方结束时才结束会话
+   * @param session 会话索引
+   * @param name 协议名称
+   * @param timeout 超时时间（毫秒），0 表示不超时
+   * @param signal 取消信号
+   * @returns 响应数据
+   */
+  private joinSession(session: number, name: string, timeout: number, signal?: AbortSignal): Promise<any> {
+    const sessionItem = this.requestSession.get(session) as SessionItem;
+    return new Promise((resolve, reject) => {
+      if (signal && signal.aborted) {
+        reject(new AbortError(name, session));
+        return;
+      }
+
+      const waiter: SessionWaiter = { session, resolve, reject, timer: null, signal: null, onAbort: null };
+      sessionItem.waiters.push(waiter);
+      this.watchWaiter(waiter, name, timeout, signal);
     });
   }
 
@@ -293,18 +1356,20 @@ export class Network {
    * 发送请求并立即返回
    * @param name 协议名称
    * @param data 请求数据（可选）
-   * @returns 是否发送成功
+   * @returns 是否发送成功（或已进入出站队列）
    */
-  public invoke(name: string, data?: any): boolean {
-    return this.request(name, data);
+  public invoke<K extends ProtocolName<P>>(name: K, data?: RequestOf<P, K>): boolean {
+    return this.request(name, data).success;
   }
 
   /**
    * 注册处理特定请求的回调函数
+   * 每个协议只能有一个响应处理器，其返回值作为回复发送给服务器；
+   * 仅需接收推送时使用 on()
    * @param name 协议名称
    * @param callback 处理函数
    */
-  public register(name: string, callback: ResponseHandler): void {
+  public register<K extends ProtocolName<P>>(name: K, callback: ResponseHandler<RequestOf<P, K>, ResponseOf<P, K>>): void {
     if (!callback) {
       throw new Error('Callback is required');
     }
@@ -316,6 +1381,15 @@ export class Network {
     this.responseHandle.set(name, callback);
   }
 
+  /**
+   * 注销特定请求的响应处理器
+   * @param name 协议名称
+   * @returns 是否存在并已注销
+   */
+  public unregister(name: ProtocolName<P>): boolean {
+    return this.responseHandle.delete(name);
+  }
+
 
   /**
    * 获取连接状态
@@ -329,12 +1403,28 @@ export class Network {
    * 关闭连接并清理资源
    */
   public close(): void {
+    this.scheduler.stop();
+    if (this.unbindConnection) {
+      this.unbindConnection();
+      this.unbindConnection = null;
+    }
     if (this.connection) {
       this.connection.close();
       this.connection = null;
+      this.events.emit('disconnected', { reason: 'closed' });
+    }
+    this.verifying = false;
+    this.mismatch = false;
+    if (this.reconnector) {
+      this.reconnector.reset();
+    }
+    this.rejectAllSessions('closed');
+    this.outbound.clear();
+    if (this.limiter) {
+      this.limiter.clear();
     }
-    this.requestSession.clear();
     this.responseHandle.clear();
+    this.pushListeners.removeAllListeners();
   }
 }
 
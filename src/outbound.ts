@@ -0,0 +1,198 @@
+/**
+ * OutboundQueue - 出站消息队列
+ *
+ * 连接未处于 forward 状态（握手中或断线重连中）时暂存已编码的请求，
+ * 按消息数和字节数限制队列大小，超出时按溢出策略处理。
+ */
+
+/**
+ * 溢出策略
+ * - reject: 拒绝新消息
+ * - drop-oldest: 丢弃最早的消息以容纳新消息
+ * - block: 新消息进入等待列表，直到连接恢复后按顺序发送（仅适用于可等待的 call），等待列表已满时按 reject 处理
+ */
+export type OverflowPolicy = 'reject' | 'drop-oldest' | 'block';
+
+/**
+ * 出站队列配置项接口
+ */
+export interface OutboundQueueOptions {
+  /** 最大消息数，默认 100 */
+  maxSize?: number;
+  /** 最大字节数，0 表示不限制，默认 0 */
+  maxBytes?: number;
+  /** 溢出策略，默认 reject */
+  overflow?: OverflowPolicy;
+  /** block 策略下等待列表的最大消息数，默认与 maxSize 相同 */
+  maxWaiting?: number;
+}
+
+/**
+ * 出站消息
+ */
+export interface OutboundItem {
+  /** 协议名称 */
+  name: string;
+  /** 已编码的消息数据 */
+  data: Uint8Array;
+  /** 会话索引，invoke 发送的消息没有会话 */
+  session?: number;
+}
+
+/**
+ * 入队结果接口
+ */
+export interface PushResult {
+  /** 是否已入队（包括进入等待列表） */
+  accepted: boolean;
+  /** 为容纳新消息而被丢弃的消息 */
+  dropped: OutboundItem[];
+}
+
+const DEF_MAX_SIZE = 100;
+
+/**
+ * 出站消息队列类
+ */
+export class OutboundQueue {
+  private maxSize: number;
+  private maxBytes: number;
+  private overflow: OverflowPolicy;
+  private maxWaiting: number;
+  private items: OutboundItem[] = [];
+  private waiting: OutboundItem[] = [];
+  private bytes: number = 0;
+
+  /**
+   * 创建出站消息队列
+   * @param options 配置项
+   */
+  constructor(options: OutboundQueueOptions = {}) {
+    this.maxSize = options.maxSize ?? DEF_MAX_SIZE;
+    this.maxBytes = options.maxBytes ?? 0;
+    this.overflow = options.overflow ?? 'reject';
+    this.maxWaiting = options.maxWaiting ?? this.maxSize;
+  }
+
+  /**
+   * 消息入队
+   * @param item 出站消息
+   * @param canWait 调用方能否等待（call 可以，invoke 不可以），block 策略下不能等待或等待列表已满时按 reject 处理
+   * @returns 入队结果
+   */
+  push(item: OutboundItem, canWait: boolean): PushResult {
+    if (this.waiting.length === 0 && this.hasRoom(item)) {
+      this.add(item);
+      return { accepted: true, dropped: [] };
+    }
+
+    if (this.overflow === 'block' && canWait && this.waiting.length < this.maxWaiting) {
+      this.waiting.push(item);
+      return { accepted: true, dropped: [] };
+    }
+
+    if (this.overflow === 'drop-oldest' && this.fits(item)) {
+      // 按字节限制时，可能需要丢弃多条消息才能放下
+      const dropped: OutboundItem[] = [];
+      while (!this.hasRoom(item)) {
+        const oldest = this.items.shift() as OutboundItem;
+        this.bytes = this.bytes - oldest.data.length;
+        dropped.push(oldest);
+      }
+      this.add(item);
+      return { accepted: true, dropped };
+    }
+
+    return { accepted: false, dropped: [] };
+  }
+
+  /**
+   * 取出所有待发送的消息（包括等待列表），按入队顺序排列
+   * @returns 出站消息列表
+   */
+  drain(): OutboundItem[] {
+    const items = this.items.concat(this.waiting);
+    this.items = [];
+    this.waiting = [];
+    this.bytes = 0;
+    return items;
+  }
+
+  /**
+   * 移除指定会话的消息（调用方已超时或取消）
+   * @param session 会话索引
+   */
+  remove(session: number): void {
+    const index = this.items.findIndex(item => item.session === session);
+    if (index !== -1) {
+      this.bytes = this.bytes - this.items[index].data.length;
+      this.items.splice(index, 1);
+      this.promoteWaiting();
+      return;
+    }
+    this.waiting = this.waiting.filter(item => item.session !== session);
+  }
+
+  /**
+   * 清空队列
+   * @returns 被清空的消息列表
+   */
+  clear(): OutboundItem[] {
+    return this.drain();
+  }
+
+  /**
+   * 获取排队中的消息数（不含等待列表）
+   * @returns 消息数
+   */
+  size(): number {
+    return this.items.length;
+  }
+
+  /**
+   * 队列和等待列表是否都为空
+   * @returns 是否为空
+   */
+  isEmpty(): boolean {
+    return this.items.length === 0 && this.waiting.length === 0;
+  }
+
+  /**
+   * 添加消息到队列尾部
+   * @param item 出站消息
+   */
+  private add(item: OutboundItem): void {
+    this.items.push(item);
+    this.bytes = this.bytes + item.data.length;
+  }
+
+  /**
+   * 队列当前能否再放下一条消息
+   * @param item 出站消息
+   * @returns 是否能放下
+   */
+  private hasRoom(item: OutboundItem): boolean {
+    if (this.items.length >= this.maxSize) {
+      return false;
+    }
+    return this.maxBytes <= 0 || this.bytes + item.data.length <= this.maxBytes;
+  }
+
+  /**
+   * 单条消息本身能否放进空队列
+   * @param item 出站消息
+   * @returns 是否能放下
+   */
+  private fits(item: OutboundItem): boolean {
+    return this.maxSize > 0 && (this.maxBytes <= 0 || item.data.length <= this.maxBytes);
+  }
+
+  /**
+   * 队列腾出空间后，将等待列表中的消息移入队列
+   */
+  private promoteWaiting(): void {
+    while (this.waiting.length > 0 && this.hasRoom(this.waiting[0])) {
+      this.add(this.waiting.shift() as OutboundItem);
+    }
+  }
+}
@@ -0,0 +1,41 @@
+/**
+ * 协议类型定义
+ *
+ * 协议映射表描述每个协议名对应的请求和响应类型，
+ * 通常由 codegen 从 .sproto 文件生成，作为 Network 的类型参数使用
+ */
+
+/**
+ * 单个协议的请求/响应类型
+ */
+export interface ProtocolDefinition {
+  request: any;
+  response: any;
+}
+
+/**
+ * 未指定协议映射表时使用的默认类型，协议名为任意字符串，请求和响应为 any
+ */
+export interface AnyProtocols {
+  [name: string]: ProtocolDefinition;
+}
+
+/**
+ * 协议映射表约束
+ */
+export type ProtocolMap<P> = { [K in keyof P]: ProtocolDefinition };
+
+/**
+ * 协议名称
+ */
+export type ProtocolName<P> = keyof P & string;
+
+/**
+ * 协议的请求类型
+ */
+export type RequestOf<P, K extends keyof P> = P[K] extends { request: infer R } ? R : any;
+
+/**
+ * 协议的响应类型
+ */
+export type ResponseOf<P, K extends keyof P> = P[K] extends { response: infer R } ? R : any;
@@ -0,0 +1,300 @@
+/**
+ * RateLimiter - 客户端请求限流
+ *
+ * 使用令牌桶按消息数/秒和字节数/秒限制 call/invoke 发出的请求，
+ * 可以设置全局限制和按协议名的限制，超出限制的请求按策略排队、拒绝或合并。
+ * 排队的请求按协议分开，一个协议等待令牌时不会挡住其它协议的请求。
+ * 本身不持有定时器，排队的请求由 Network.update() 轮询放行。
+ */
+
+import { OutboundItem } from './outbound';
+
+/**
+ * 超出限制时的处理策略
+ * - queue: 排队等待令牌，按顺序放行
+ * - reject: 直接拒绝
+ * - coalesce: 排队等待，同一协议已有排队的请求时以新请求替换它，参数结构相同时被替换请求的调用方共享新请求的响应，
+ *   否则被替换的调用方以 coalesced 拒绝
+ */
+export type ThrottlePolicy = 'queue' | 'reject' | 'coalesce';
+
+/**
+ * 速率限制接口，未设置或为 0 的字段表示不限制
+ */
+export interface RateLimit {
+  /** 每秒消息数 */
+  messagesPerSecond?: number;
+  /** 每秒字节数（按编码后的大小计算） */
+  bytesPerSecond?: number;
+  /** 令牌桶容量，以秒为单位的突发量，默认 1 */
+  burst?: number;
+}
+
+/**
+ * 协议速率限制接口
+ */
+export interface ProtocolRateLimit extends RateLimit {
+  /** 该协议超出限制时的处理策略，默认使用全局策略 */
+  policy?: ThrottlePolicy;
+}
+
+/**
+ * 限流配置项接口
+ */
+export interface RateLimitOptions {
+  /** 所有请求共享的限制 */
+  global?: RateLimit;
+  /** 按协议名的限制 */
+  protocols?: { [name: string]: ProtocolRateLimit };
+  /** 超出限制时的处理策略，默认 queue */
+  policy?: ThrottlePolicy;
+  /** 排队请求的最大数量，默认 100 */
+  maxQueue?: number;
+}
+
+/**
+ * 入队结果接口
+ */
+export interface ThrottleResult {
+  /** 是否已入队 */
+  accepted: boolean;
+  /** 被新请求合并替换的请求 */
+  dropped: OutboundItem[];
+}
+
+const DEF_MAX_QUEUE = 100;
+
+/**
+ * 令牌桶类
+ */
+export class TokenBucket {
+  private rate: number;
+  private capacity: number;
+  private tokens: number;
+  private lastTime: number = 0;
+
+  /**
+   * 创建令牌桶，初始为满
+   * @param rate 每秒补充的令牌数
+   * @param burst 桶容量（秒）
+   */
+  constructor(rate: number, burst: number = 1) {
+    this.rate = rate;
+    this.capacity = rate * burst;
+    this.tokens = this.capacity;
+  }
+
+  /**
+   * 是否有足够的令牌
+   * 单次消耗超过桶容量时，桶满即可放行，避免大消息永远无法发出
+   * @param cost 需要的令牌数
+   * @param now 当前时间（毫秒）
+   * @returns 是否足够
+   */
+  canTake(cost: number, now: number): boolean {
+    this.refill(now);
+    return this.tokens >= Math.min(cost, this.capacity);
+  }
+
+  /**
+   * 消耗令牌，调用前需先用 canTake 检查
+   * @param cost 消耗的令牌数
+   */
+  take(cost: number): void {
+    this.tokens = this.tokens - cost;
+  }
+
+  /**
+   * 按经过的时间补充令牌
+   * @param now 当前时间（毫秒）
+   */
+  private refill(now: number): void {
+    if (this.lastTime > 0 && now > this.lastTime) {
+      this.tokens = Math.min(this.capacity, this.tokens + (now - this.lastTime) * this.rate / 1000);
+    }
+    this.lastTime = now;
+  }
+}
+
+/**
+ * 单个限制对应的消息数和字节数令牌桶
+ */
+interface BucketPair {
+  messages: TokenBucket | null;
+  bytes: TokenBucket | null;
+}
+
+/**
+ * 根据速率限制创建令牌桶
+ * @param limit 速率限制
+ * @returns 令牌桶
+ */
+function createBuckets(limit: RateLimit): BucketPair {
+  const burst = limit.burst ?? 1;
+  return {
+    messages: limit.messagesPerSecond ? new TokenBucket(limit.messagesPerSecond, burst) : null,
+    bytes: limit.bytesPerSecond ? new TokenBucket(limit.bytesPerSecond, burst) : null
+  };
+}
+
+/**
+ * 限流器类
+ */
+export class RateLimiter {
+  private policy: ThrottlePolicy;
+  private protocolPolicies: Map<string, ThrottlePolicy> = new Map();
+  private maxQueue: number;
+  private global: BucketPair | null;
+  private protocols: Map<string, BucketPair> = new Map();
+  /** 按协议名分开的排队请求，每个协议内保持顺序 */
+  private pending: Map<string, OutboundItem[]> = new Map();
+  private pendingCount: number = 0;
+
+  /**
+   * 创建限流器
+   * @param options 限流配置项
+   */
+  constructor(options: RateLimitOptions) {
+    this.policy = options.policy || 'queue';
+    this.maxQueue = options.maxQueue ?? DEF_MAX_QUEUE;
+    this.global = options.global ? createBuckets(options.global) : null;
+
+    const protocols = options.protocols || {};
+    for (const name of Object.keys(protocols)) {
+      this.protocols.set(name, createBuckets(protocols[name]));
+      const policy = protocols[name].policy;
+      if (policy) {
+        this.protocolPolicies.set(name, policy);
+      }
+    }
+  }
+
+  /**
+   * 获取协议超出限制时的处理策略
+   * @param name 协议名称
+   * @returns 处理策略
+   */
+  policyOf(name: string): ThrottlePolicy {
+    return this.protocolPolicies.get(name) || this.policy;
+  }
+
+  /**
+   * 尝试为一条请求获取令牌，全局和协议限制都满足时才消耗
+   * @param name 协议名称
+   * @param bytes 编码后的字节数
+   * @param now 当前时间（毫秒）
+   * @returns 是否可以发送
+   */
+  tryAcquire(name: string, bytes: number, now: number): boolean {
+    const pairs: BucketPair[] = [];
+    if (this.global) {
+      pairs.push(this.global);
+    }
+    const protocol = this.protocols.get(name);
+    if (protocol) {
+      pairs.push(protocol);
+    }
+
+    for (const pair of pairs) {
+      if (pair.messages && !pair.messages.canTake(1, now)) {
+        return false;
+      }
+      if (pair.bytes && !pair.bytes.canTake(bytes, now)) {
+        return false;
+      }
+    }
+
+    for (const pair of pairs) {
+      if (pair.messages) {
+        pair.messages.take(1);
+      }
+      if (pair.bytes) {
+        pair.bytes.take(bytes);
+      }
+    }
+    return true;
+  }
+
+  /**
+   * 是否有排队等待令牌的请求
+   * @param name 协议名称，不指定时检查所有协议
+   * @returns 是否有排队的请求
+   */
+  hasPending(name?: string): boolean {
+    return name === undefined ? this.pendingCount > 0 : this.pending.has(name);
+  }
+
+  /**
+   * 请求入队等待令牌
+   * coalesce 策略下同一协议已有排队的请求时，新请求在原位置替换它
+   * @param item 出站消息
+   * @returns 入队结果
+   */
+  enqueue(item: OutboundItem): ThrottleResult {
+    const queue = this.pending.get(item.name);
+    if (queue && this.policyOf(item.name) === 'coalesce') {
+      const replaced = queue[0];
+      queue[0] = item;
+      return { accepted: true, dropped: [replaced] };
+    }
+
+    if (this.pendingCount >= this.maxQueue) {
+      return { accepted: false, dropped: [] };
+    }
+    if (queue) {
+      queue.push(item);
+    } else {
+      this.pending.set(item.name, [item]);
+    }
+    this.pendingCount = this.pendingCount + 1;
+    return { accepted: true, dropped: [] };
+  }
+
+  /**
+   * 取出已获得令牌的排队请求
+   * 每个协议按顺序放行，队首未获得令牌时只停止该协议
+   * @param now 当前时间（毫秒）
+   * @returns 可以发送的请求
+   */
+  release(now: number): OutboundItem[] {
+    const released: OutboundItem[] = [];
+    for (const [name, queue] of Array.from(this.pending)) {
+      while (queue.length > 0 && this.tryAcquire(name, queue[0].data.length, now)) {
+        released.push(queue.shift() as OutboundItem);
+      }
+      if (queue.length === 0) {
+        this.pending.delete(name);
+      }
+    }
+    this.pendingCount = this.pendingCount - released.length;
+    return released;
+  }
+
+  /**
+   * 移除指定会话的排队请求（调用方已超时或取消）
+   * @param session 会话索引
+   */
+  remove(session: number): void {
+    for (const [name, queue] of Array.from(this.pending)) {
+      const rest = queue.filter(item => item.session !== session);
+      this.pendingCount = this.pendingCount - (queue.length - rest.length);
+      if (rest.length === 0) {
+        this.pending.delete(name);
+      } else {
+        this.pending.set(name, rest);
+      }
+    }
+  }
+
+  /**
+   * 清空排队的请求
+   * @returns 被清空的请求
+   */
+  clear(): OutboundItem[] {
+    const items: OutboundItem[] = [];
+    this.pending.forEach(queue => items.push(...queue));
+    this.pending.clear();
+    this.pendingCount = 0;
+    return items;
+  }
+}
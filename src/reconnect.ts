@@ -0,0 +1,171 @@
+/**
+ * Reconnector - 断线重连调度器
+ *
+ * 根据重连策略计算指数退避（带随机抖动）的重连时机，
+ * 并在超过最大次数或总时长后放弃重连。
+ * 本身不持有定时器，由 Network.update() 轮询驱动。
+ */
+
+/**
+ * 重连策略接口
+ */
+export interface ReconnectPolicy {
+  /** 最大重连次数，0 表示不限次数，默认 10 */
+  maxAttempts?: number;
+  /** 首次重试前的等待时间（毫秒），默认 1000 */
+  initialDelay?: number;
+  /** 单次等待时间上限（毫秒），默认 30000 */
+  maxDelay?: number;
+  /** 退避倍数，默认 2 */
+  factor?: number;
+  /** 随机抖动比例 [0, 1]，默认 0.5 */
+  jitter?: number;
+  /** 从断线开始计算的重连总时长上限（毫秒），0 表示不限制，默认 60000 */
+  deadline?: number;
+}
+
+/**
+ * 重连调度状态
+ * - idle: 连接正常，未在重连
+ * - waiting: 等待下一次重连时机
+ * - attempting: 已发起重连，等待结果
+ * - stopped: 已放弃重连
+ */
+export type ReconnectPhase = 'idle' | 'waiting' | 'attempting' | 'stopped';
+
+const DEF_RECONNECT_POLICY: Required<ReconnectPolicy> = {
+  maxAttempts: 10,
+  initialDelay: 1000,
+  maxDelay: 30000,
+  factor: 2,
+  jitter: 0.5,
+  deadline: 60000
+};
+
+/**
+ * 重连调度器类
+ */
+export class Reconnector {
+  private policy: Required<ReconnectPolicy>;
+  private phase: ReconnectPhase = 'idle';
+  private attempts: number = 0;
+  private startTime: number = 0;
+  private nextTime: number = 0;
+
+  /**
+   * 创建重连调度器
+   * @param policy 重连策略，未指定的字段使用默认值
+   */
+  constructor(policy: ReconnectPolicy = {}) {
+    this.policy = { ...DEF_RECONNECT_POLICY, ...policy };
+  }
+
+  /**
+   * 获取当前调度状态
+   * @returns 调度状态
+   */
+  getPhase(): ReconnectPhase {
+    return this.phase;
+  }
+
+  /**
+   * 获取已发起的重连次数
+   * @returns 重连次数
+   */
+  getAttempts(): number {
+    return this.attempts;
+  }
+
+  /**
+   * 检测到断线：开始新一轮重连，或记录上一次重连失败
+   * @param now 当前时间戳（毫秒）
+   * @returns 是否继续重连，false 表示已放弃
+   */
+  onBreak(now: number): boolean {
+    if (this.phase === 'stopped') {
+      return false;
+    }
+
+    if (this.phase === 'idle') {
+      this.phase = 'waiting';
+      this.attempts = 0;
+      this.startTime = now;
+      this.nextTime = now;
+      return true;
+    }
+
+    if (this.phase === 'attempting') {
+      return this.retryLater(now);
+    }
+
+    return true;
+  }
+
+  /**
+   * 是否到达下一次重连时机
+   * @param now 当前时间戳（毫秒）
+   * @returns 是否应立即发起重连
+   */
+  isDue(now: number): boolean {
+    return this.phase === 'waiting' && now >= this.nextTime;
+  }
+
+  /**
+   * 记录发起了一次重连
+   */
+  markAttempt(): void {
+    this.attempts = this.attempts + 1;
+    this.phase = 'attempting';
+  }
+
+  /**
+   * 本次重连未能发起或失败，安排下一次重连
+   * @param now 当前时间戳（毫秒）
+   * @returns 是否继续重连，false 表示已放弃
+   */
+  retryLater(now: number): boolean {
+    const { maxAttempts, deadline } = this.policy;
+    if (maxAttempts > 0 && this.attempts >= maxAttempts) {
+      this.phase = 'stopped';
+      return false;
+    }
+
+    const delay = this.nextDelay();
+    if (deadline > 0 && now + delay - this.startTime > deadline) {
+      this.phase = 'stopped';
+      return false;
+    }
+
+    this.phase = 'waiting';
+    this.nextTime = now + delay;
+    return true;
+  }
+
+  /**
+   * 计算下一次重连前的等待时间
+   * @returns 等待时间（毫秒）
+   */
+  private nextDelay(): number {
+    const { initialDelay, maxDelay, factor, jitter } = this.policy;
+    const base = Math.min(maxDelay, initialDelay * Math.pow(factor, Math.max(0, this.attempts - 1)));
+    const spread = base * jitter * (Math.random() * 2 - 1);
+    return Math.max(0, Math.round(base + spread));
+  }
+
+  /**
+   * 放弃重连，直到下一次 reset()
+   */
+  stop(): void {
+    this.phase = 'stopped';
+  }
+
+  /**
+   * 重置调度器（重连成功或建立新连接时调用）
+   */
+  reset(): void {
+    this.phase = 'idle';
+    this.attempts = 0;
+    this.startTime = 0;
+    this.nextTime = 0;
+  }
+}
@@ -0,0 +1,158 @@
+/**
+ * Scheduler - 网络更新循环调度器
+ *
+ * 按配置的模式周期性调用 tick：
+ * - interval: 使用 setInterval
+ * - raf: 使用 requestAnimationFrame，页面隐藏时降级为低频定时器（浏览器会暂停后台页面的 rAF）
+ * - manual: 不调度，由调用方（如游戏引擎主循环）自行驱动
+ */
+
+/**
+ * 调度模式
+ */
+export type ScheduleMode = 'interval' | 'raf' | 'manual';
+
+/**
+ * 调度配置项接口
+ */
+export interface ScheduleOptions {
+  /** 调度模式，默认在支持 requestAnimationFrame 的环境使用 raf，否则使用 interval */
+  mode?: ScheduleMode;
+  /** 两次更新的最小间隔（毫秒），默认 50 */
+  intervalMs?: number;
+  /** 页面隐藏时的更新间隔（毫秒），默认 1000 */
+  hiddenIntervalMs?: number;
+}
+
+const DEF_INTERVAL_MS = 50;
+const DEF_HIDDEN_INTERVAL_MS = 1000;
+
+/**
+ * 判断页面当前是否隐藏
+ * @returns 是否隐藏，非浏览器环境返回 false
+ */
+function isPageHidden(): boolean {
+  return typeof document !== 'undefined' && document.visibilityState === 'hidden';
+}
+
+/**
+ * 更新循环调度器类
+ */
+export class Scheduler {
+  private tick: () => void;
+  private onError: (error: unknown) => void;
+  private mode: ScheduleMode | null = null;
+  private intervalMs: number = DEF_INTERVAL_MS;
+  private hiddenIntervalMs: number = DEF_HIDDEN_INTERVAL_MS;
+  private lastTick: number = 0;
+
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private frame: number | null = null;
+  private onVisibilityChange: (() => void) | null = null;
+
+  /**
+   * 创建调度器
+   * @param tick 每次调度执行的函数
+   * @param onError tick 抛出异常时的处理函数，异常不会抛到定时器中
+   */
+  constructor(tick: () => void, onError: (error: unknown) => void) {
+    this.tick = tick;
+    this.onError = onError;
+  }
+
+  /**
+   * 是否正在调度
+   * @returns 是否已启动
+   */
+  isRunning(): boolean {
+    return this.mode !== null;
+  }
+
+  /**
+   * 启动调度，已启动时按新配置重启
+   * @param options 调度配置项
+   */
+  start(options: ScheduleOptions = {}): void {
+    this.stop();
+
+    const rafSupported = typeof requestAnimationFrame === 'function';
+    let mode = options.mode || (rafSupported ? 'raf' : 'interval');
+    if (mode === 'raf' && !rafSupported) {
+      mode = 'interval';
+    }
+
+    this.mode = mode;
+    this.intervalMs = options.intervalMs ?? DEF_INTERVAL_MS;
+    this.hiddenIntervalMs = options.hiddenIntervalMs ?? DEF_HIDDEN_INTERVAL_MS;
+    this.lastTick = 0;
+
+    if (mode === 'manual') {
+      return;
+    }
+
+    if (typeof document !== 'undefined') {
+      this.onVisibilityChange = () => this.schedule();
+      document.addEventListener('visibilitychange', this.onVisibilityChange);
+    }
+    this.schedule();
+  }
+
+  /**
+   * 停止调度
+   */
+  stop(): void {
+    this.cancel();
+    if (this.onVisibilityChange) {
+      document.removeEventListener('visibilitychange', this.onVisibilityChange);
+      this.onVisibilityChange = null;
+    }
+    this.mode = null;
+  }
+
+  /**
+   * 根据当前模式和页面可见性安排调度
+   */
+  private schedule(): void {
+    this.cancel();
+
+    if (isPageHidden()) {
+      this.timer = setInterval(() => this.run(), this.hiddenIntervalMs);
+    } else if (this.mode === 'raf') {
+      const loop = (now: number) => {
+        this.frame = requestAnimationFrame(loop);
+        if (now - this.lastTick >= this.intervalMs) {
+          this.lastTick = now;
+          this.run();
+        }
+      };
+      this.frame = requestAnimationFrame(loop);
+    } else if (this.mode === 'interval') {
+      this.timer = setInterval(() => this.run(), this.intervalMs);
+    }
+  }
+
+  /**
+   * 取消已安排的定时器和动画帧
+   */
+  private cancel(): void {
+    if (this.timer !== null) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    if (this.frame !== null) {
+      cancelAnimationFrame(this.frame);
+      this.frame = null;
+    }
+  }
+
+  /**
+   * 执行一次 tick，捕获异常交给 onError
+   */
+  private run(): void {
+    try {
+      this.tick();
+    } catch (error) {
+      this.onError(error);
+    }
+  }
+}
@@ -3,49 +3,28 @@
  * 基于状态机的WebSocket连接，支持断线重连和数据缓存
  */
 
-import { connect as connectWS, IWSConnection } from './conn';
+import { connect as connectWS, IWSConnection, TransportEvents, WebSocketFactory } from './conn';
 import { Buffer } from './buffer';
 import { CryptUtils } from './crypto';
-
-const CACHE_MAX_COUNT = 100;
+import { EventEmitter, EventListener } from './emitter';
+import { Logger, ComponentLogger, componentLogger, errorFields } from './logger';
+import { ConnectTimeoutError } from './errors';
+import { TrafficCounters } from './heartbeat';
+
+/** 重传缓存的默认字节预算 */
+const DEF_CACHE_BYTES = 65536;
+/** 断线后写入的字节数达到预算的该比例时发出警告 */
+const CACHE_WARN_RATIO = 0.8;
 const DEF_MSG_HEADER_LEN = 2;
-const DEF_MSG_ENDIAN = "big";
-
-// 日志开关和格式化函数
-const VERBOSE = false;
-
+const DEF_MSG_ENDIAN: Endian = "big";
+/** goscon 握手消息的包头长度和字节序 */
+const DEF_HANDSHAKE_HEADER_LEN = 2;
+const DEF_HANDSHAKE_ENDIAN: Endian = "big";
 
 /**
- * 格式化日志输出
- * @param level 日志级别
- * @param component 组件名称
- * @param message 日志消息
- * @param data 可选的附加数据
+ * 包头字节序
  */
-function formatLog(level: string, component: string, message: string, data?: any): void {
-  if (!VERBOSE) return;
-
-  const timestamp = new Date().toISOString().replace('T', ' ').substring(0, 23);
-  const baseMessage = `[${timestamp}] [${level}] [${component}] ${message}`;
-
-  if (data !== undefined) {
-    if (typeof data === 'object') {
-      console.log(`${baseMessage}`, JSON.stringify(data));
-    } else {
-      console.log(`${baseMessage}`, data);
-    }
-  } else {
-    console.log(baseMessage);
-  }
-}
-
-/** SConn组件专用日志函数 */
-const log = {
-  debug: (message: string, data?: any) => formatLog('DEBUG', 'SConn', message, data),
-  info: (message: string, data?: any) => formatLog('INFO', 'SConn', message, data),
-  warn: (message: string, data?: any) => formatLog('WARN', 'SConn', message, data),
-  error: (message: string, data?: any) => formatLog('ERROR', 'SConn', message, data)
-};
+export type Endian = 'big' | 'little';
 
 /**
  * 状态处理结果接口
@@ -72,83 +51,215 @@ interface ConnectResult {
   error?: string;
 }
 
+/**
+ * 包头格式接口
+ */
+export interface FrameFormat {
+  /** 包头长度（字节），默认 2 */
+  length?: number;
+  /** 包头字节序，默认 big */
+  endian?: Endian;
+}
+
+/**
+ * SConn配置项接口，未设置的字段与 goscon 默认配置一致
+ */
+export interface SConnOptions {
+  /** 目标服务器标识，默认为空 */
+  targetServer?: string;
+  /** 新连接握手的标志位，默认 0 */
+  flag?: number;
+  /** 业务消息的包头格式，默认 2 字节大端 */
+  messageHeader?: FrameFormat;
+  /** 新连接和重连握手消息的包头格式，默认 2 字节大端 */
+  handshakeHeader?: FrameFormat;
+  /** 断线重连补发数据的缓存字节预算，默认 65536 */
+  cacheBytes?: number;
+  /** 建立 WebSocket 连接的超时时间（毫秒），0 表示不超时，默认 0 */
+  dialTimeout?: number;
+  /** 等待服务器握手回复的超时时间（毫秒），0 表示不超时，默认 0 */
+  handshakeTimeout?: number;
+  /** WebSocket 工厂函数，默认使用全局 WebSocket */
+  transport?: WebSocketFactory;
+  /** 日志器，同时用于底层 WebSocket 连接，默认不输出 */
+  logger?: Logger;
+}
+
+/**
+ * SConn事件定义，包含透传的传输层事件
+ */
+export interface SConnEvents extends TransportEvents {
+  /** 状态机状态切换 */
+  stateChange: { from: string; to: string };
+  /** 重连期间写入的数据接近（exceeded 为 false）或超出（exceeded 为 true）重传缓存的字节预算 */
+  cachePressure: { pending: number; budget: number; exceeded: boolean };
+}
+
+/**
+ * 消息连接接口，Network 通过该接口收发消息
+ * SConn 独占一个 goscon 会话，MuxChannel 与其它通道共享一个 SConn
+ */
+export interface ISConn {
+  /** goscon 会话 ID */
+  readonly vId: number;
+  curState(): string;
+  update(): StateDisposeResult;
+  sendMsg(data: Uint8Array): boolean;
+  recvMsg(outMsg: Uint8Array[]): number;
+  reconnect(cb?: (success: boolean) => void): ReconnectResult;
+  /** 进入失败状态的原因，目前只记录连接和握手超时 */
+  lastError(): Error | null;
+  /** goscon 会话收发的字节数 */
+  traffic(): TrafficCounters;
+  /** 以错误断开底层连接，之后 update() 报告 connect_break */
+  abort(error: string): void;
+  close(): void;
+  on<K extends keyof SConnEvents>(event: K, listener: EventListener<SConnEvents[K]>): () => void;
+}
+
+/**
+ * 缓存压力回调类型
+ * @param pending 断线后写入、必须在重连时补发的字节数
+ * @param budget 缓存字节预算
+ * @param exceeded 是否已超出预算（超出后重连必然因缓存不足失败）
+ */
+type CachePressureCallback = (pending: number, budget: number, exceeded: boolean) => void;
+
 /**
  * 缓存类，用于断线重连时的数据包重传
+ *
+ * 与 goscon 的 reuse buffer 语义一致：按字节预算保存最近发送的数据，
+ * 重连时按服务器确认的字节数补发末尾的若干字节。
+ * 数据保存在一块连续的环形缓冲区中，插入只做内存拷贝，补发时返回缓冲区的视图而不拷贝。
  */
 class Cache {
+  private buffer: Uint8Array;
+  /** 下一次写入的位置 */
+  private head: number = 0;
+  /** 有效数据的字节数，不超过预算 */
   private size: number = 0;
-  private top: number = 0;
-  private cache: { [key: number]: Uint8Array } = {};
+  private onPressure: CachePressureCallback | null;
+  /** 是否在统计断线后写入的字节 */
+  private tracking: boolean = false;
+  private pending: number = 0;
+  private warned: boolean = false;
+
+  /**
+   * 创建缓存
+   * @param budget 字节预算
+   * @param onPressure 断线后写入的字节数接近（达到 80%）或超出预算时的回调
+   */
+  constructor(budget: number = DEF_CACHE_BYTES, onPressure?: CachePressureCallback) {
+    this.buffer = new Uint8Array(Math.max(0, budget));
+    this.onPressure = onPressure || null;
+  }
 
   /**
-   * 插入数据到缓存
+   * 获取字节预算
+   * @returns 字节预算
+   */
+  budget(): number {
+    return this.buffer.length;
+  }
+
+  /**
+   * 插入数据到缓存，超出预算时覆盖最早的数据
    * @param data 要缓存的数据
    */
   insert(data: Uint8Array): void {
-    this.top = this.top + 1;
-    this.cache[this.top] = data;
-    this.size = this.size + data.length;
-
-    const removeKey = this.top - CACHE_MAX_COUNT;
-    const removeCacheValue = this.cache[removeKey];
-    if (removeCacheValue !== undefined) {
-      delete this.cache[removeKey];
-      this.size = this.size - removeCacheValue.length;
+    const capacity = this.buffer.length;
+    if (this.tracking) {
+      this.track(data.length);
     }
+    if (capacity === 0 || data.length === 0) {
+      return;
+    }
+
+    // 数据本身超出预算时只保留末尾部分
+    if (data.length >= capacity) {
+      this.buffer.set(data.subarray(data.length - capacity), 0);
+      this.head = 0;
+      this.size = capacity;
+      return;
+    }
+
+    const first = Math.min(data.length, capacity - this.head);
+    this.buffer.set(data.subarray(0, first), this.head);
+    if (first < data.length) {
+      this.buffer.set(data.subarray(first), 0);
+    }
+    this.head = (this.head + data.length) % capacity;
+    this.size = Math.min(capacity, this.size + data.length);
   }
 
   /**
-   * 获取指定字节数的数据
+   * 获取最近写入的指定字节数的数据
+   * 返回的是缓存的视图，再次插入数据前有效；数据跨过缓冲区末尾时分为两段
    * @param nbytes 需要获取的字节数
-   * @returns 获取到的数据，如果缓存不足则返回null
+   * @returns 按顺序排列的数据段，如果缓存不足则返回null
    */
-  get(nbytes: number): Uint8Array | null {
-    if (this.size < nbytes) {
+  get(nbytes: number): Uint8Array[] | null {
+    if (nbytes > this.size) {
       return null;
     }
-
-    let i = this.top;
-    let count = 0;
-    const ret: Uint8Array[] = [];
-
-    while (count < nbytes) {
-      const v = this.cache[i];
-      if (!v) break;
-
-      const len = v.length;
-      let n = len;
-      let vv = v;
-
-      if (count + len > nbytes) {
-        const subN = nbytes - count;
-        const pos = len - subN;
-        vv = v.slice(pos);
-        n = subN;
-      }
-
-      ret.unshift(vv);
-      count = count + n;
-      i = i - 1;
+    if (nbytes <= 0) {
+      return [];
     }
 
-    // 合并所有 Uint8Array
-    const totalLength = ret.reduce((sum, arr) => sum + arr.length, 0);
-    const result = new Uint8Array(totalLength);
-    let offset = 0;
-    for (const arr of ret) {
-      result.set(arr, offset);
-      offset += arr.length;
+    const start = this.head - nbytes;
+    if (start >= 0) {
+      return [this.buffer.subarray(start, this.head)];
+    }
+    const segments = [this.buffer.subarray(this.buffer.length + start)];
+    if (this.head > 0) {
+      segments.push(this.buffer.subarray(0, this.head));
     }
-    return result;
+    return segments;
+  }
+
+  /**
+   * 开始统计断线后写入的字节，这些数据在重连时必须全部补发
+   */
+  startTracking(): void {
+    this.tracking = true;
+    this.pending = 0;
+    this.warned = false;
+  }
+
+  /**
+   * 停止统计断线后写入的字节
+   */
+  stopTracking(): void {
+    this.tracking = false;
+    this.pending = 0;
   }
 
   /**
    * 清空缓存中的所有数据
    */
   clear(): void {
+    this.head = 0;
     this.size = 0;
-    this.top = 0;
-    this.cache = {};
+    this.stopTracking();
+  }
+
+  /**
+   * 累计断线后写入的字节，接近或超出预算时回调
+   * @param bytes 写入的字节数
+   */
+  private track(bytes: number): void {
+    const budget = this.buffer.length;
+    const before = this.pending;
+    this.pending = before + bytes;
+    if (!this.onPressure) {
+      return;
+    }
+    if (before <= budget && this.pending > budget) {
+      this.onPressure(this.pending, budget, true);
+    } else if (!this.warned && this.pending >= budget * CACHE_WARN_RATIO && this.pending <= budget) {
+      this.warned = true;
+      this.onPressure(this.pending, budget, false);
+    }
   }
 }
 
@@ -201,7 +312,7 @@ interface IState {
  * @param data 要发送的数据
  */
 function dummy(self: SConn, data: Uint8Array): void {
-  log.debug("sending dummy data");
+  self.log.debug("sending dummy data");
 }
 
 /**
@@ -241,11 +352,12 @@ const states: { [key: string]: IState } = {
       // 将字符串转换为 Uint8Array
       const textEncoder = new TextEncoder();
       const dataBytes = textEncoder.encode(data);
-      const packedData = packData(dataBytes, 2, "big");
+      const packedData = packData(dataBytes, self.vHandshakeHeaderLen, self.vHandshakeEndian);
 
       self.vSock.send(packedData);
       self.vPrivateKey = privateKey;
       self.vSendBufTop = 0;
+      self.vHandshakeDeadline = 0;
     },
 
     send: (self: SConn, data: Uint8Array) => {
@@ -254,10 +366,10 @@ const states: { [key: string]: IState } = {
     },
 
     dispatch: async (self: SConn) => {
-      const data = self.vSock.popMsg(2, "big");
+      const data = self.vSock.popMsg(self.vHandshakeHeaderLen, self.vHandshakeEndian);
       if (!data) return;
 
-      log.debug("received connection response", data);
+      self.log.debug("received connection response", { bytes: data.length });
       const decoder = new TextDecoder('utf-8');
       const str = decoder.decode(data);
       const lines = str.split('\n');
@@ -270,9 +382,9 @@ const states: { [key: string]: IState } = {
       if (serverKeyB64 && self.vPrivateKey) {
         const serverPublicKey = CryptUtils.base64Decode(serverKeyB64);
         self.vSecret = CryptUtils.dhSecret(serverPublicKey, self.vPrivateKey);
-        log.debug("DH secret computed successfully");
+        self.log.debug("DH secret computed successfully");
       } else {
-        log.error("Missing server public key or client private key for DH exchange");
+        self.log.error("Missing server public key or client private key for DH exchange");
       }
 
       switchState(self, "forward");
@@ -325,14 +437,15 @@ const states: { [key: string]: IState } = {
       // 将字符串转换为 Uint8Array
       const textEncoder = new TextEncoder();
       const dataBytes = textEncoder.encode(data);
-      const packedData = packData(dataBytes, 2, "big");
+      const packedData = packData(dataBytes, self.vHandshakeHeaderLen, self.vHandshakeEndian);
 
-      log.debug("sending reconnect request", {
+      self.log.debug("sending reconnect request", {
         reconnectIndex: self.vReconnectIndex,
         recvNumber: self.vRecvNumber,
         hasHmac: !!self.vSecret
       });
       self.vSock.send(packedData);
+      self.vHandshakeDeadline = 0;
     },
 
     send: (self: SConn, data: Uint8Array) => {
@@ -342,10 +455,10 @@ const states: { [key: string]: IState } = {
     },
 
     dispatch: (self: SConn) => {
-      const data = self.vSock.popMsg(2, "big");
+      const data = self.vSock.popMsg(self.vHandshakeHeaderLen, self.vHandshakeEndian);
       if (!data) return;
 
-      log.debug("received reconnect response", data);
+      self.log.debug("received reconnect response", { bytes: data.length });
       const decoder = new TextDecoder('utf-8');
       const str = decoder.decode(data);
       const lines = str.split('\n');
@@ -355,10 +468,11 @@ const states: { [key: string]: IState } = {
       const sendNumber = self.vSendNumber;
       const cb = self.vReconnectCb;
       self.vReconnectCb = undefined;
+      self.vCache.stopTracking();
 
       // 重连失败
       if (msg !== "200") {
-        log.warn("reconnect failed", { message: msg });
+        self.log.warn("reconnect failed", { message: msg });
         if (cb) cb(false);
         switchState(self, "reconnect_error");
         return;
@@ -383,8 +497,10 @@ const states: { [key: string]: IState } = {
           return;
         }
 
-        // 发送补发数据
-        self.vSock.send(resendData);
+        // 发送补发数据，此时连接已就绪，缓存的视图会被立即拷贝发出
+        for (const part of resendData) {
+          self.vSock.send(part);
+        }
       }
 
       // 重连成功
@@ -468,6 +584,18 @@ const states: { [key: string]: IState } = {
     dispose: disposeError
   },
 
+  connect_timeout: {
+    name: "connect_timeout",
+    send: dummy,
+    dispose: (self: SConn, success: boolean, err?: string, status?: string): StateDisposeResult => {
+      return {
+        success: false,
+        error: self.vError ? self.vError.message : self.vState.name,
+        status: "connect_timeout"
+      };
+    }
+  },
+
   close: {
     name: "close",
     send: dummy,
@@ -494,13 +622,18 @@ function switchState(self: SConn, stateName: string, ...args: any[]): void {
     throw new Error(`Invalid state: ${stateName}`);
   }
 
-  log.debug("switching state", { from: self.vState.name, to: stateName, args });
+  const from = self.vState.name;
+  self.log.debug("switching state", { from, to: stateName, args });
   self.vState = state;
 
+  if (from !== stateName) {
+    self.vEvents.emit('stateChange', { from, to: stateName });
+  }
+
   if (state.request) {
     // 异步调用request函数，但不等待结果
     Promise.resolve(state.request(self, ...args)).catch(error => {
-      log.error("Error in state request", { state: stateName, error: error.message });
+      self.log.error("Error in state request", { state: stateName, error: error.message });
     });
   }
 }
@@ -514,27 +647,86 @@ function switchState(self: SConn, stateName: string, ...args: any[]): void {
  * - DH密钥交换和加密通信
  * - 状态机驱动的连接管理
  */
-export class SConn {
+export class SConn implements ISConn {
   public vState: IState;
   public vSock: IWSConnection;
   public vId: number = 0;
   public vSendNumber: number = 0;
   public vRecvNumber: number = 0;
   public vReconnectIndex: number = 0;
-  public vCache: Cache = new Cache();
+  public vCache: Cache;
+  /** 业务消息的包头长度和字节序 */
+  public vHeaderLen: number;
+  public vEndian: Endian;
+  /** 握手消息的包头长度和字节序 */
+  public vHandshakeHeaderLen: number;
+  public vHandshakeEndian: Endian;
+  /** 建立连接和等待握手回复的超时时间（毫秒），0 表示不超时 */
+  public vDialTimeout: number;
+  public vHandshakeTimeout: number;
+  /** 等待握手回复的截止时间，连接就绪后开始计时，0 表示尚未开始 */
+  public vHandshakeDeadline: number = 0;
+  /** 进入失败状态的原因 */
+  public vError: Error | null = null;
   public vSendBuf: { [key: number]: Uint8Array } = {};
   public vSendBufTop: number = 0;
   public vRecvBuf: Buffer = Buffer.create();
   public vReconnectCb?: (success: boolean) => void;
+  public vEvents: EventEmitter<SConnEvents> = new EventEmitter(
+    (event, error) => this.log.error('Event listener failed', { event, ...errorFields(error) })
+  );
+  public log: ComponentLogger;
 
   /** 加密相关字段 */
   public vPrivateKey?: Uint8Array;
   public vSecret: Uint8Array;
 
-  constructor(sock: IWSConnection) {
+  /**
+   * @param sock WebSocket连接
+   * @param options 配置项，其中的 targetServer、flag 和 transport 由 connect() 使用
+   */
+  constructor(sock: IWSConnection, options: SConnOptions = {}) {
+    const messageHeader = options.messageHeader || {};
+    const handshakeHeader = options.handshakeHeader || {};
+
     this.vState = states.newconnect;
     this.vSock = sock;
+    this.log = componentLogger(options.logger, 'SConn');
+    this.vHeaderLen = messageHeader.length || DEF_MSG_HEADER_LEN;
+    this.vEndian = messageHeader.endian || DEF_MSG_ENDIAN;
+    this.vHandshakeHeaderLen = handshakeHeader.length || DEF_HANDSHAKE_HEADER_LEN;
+    this.vHandshakeEndian = handshakeHeader.endian || DEF_HANDSHAKE_ENDIAN;
+    this.vDialTimeout = options.dialTimeout ?? 0;
+    this.vHandshakeTimeout = options.handshakeTimeout ?? 0;
+    this.vCache = new Cache(options.cacheBytes ?? DEF_CACHE_BYTES, (pending, budget, exceeded) => {
+      this.log.warn(exceeded ? "resend cache budget exceeded" : "resend cache nearly full", { pending, budget });
+      this.vEvents.emit('cachePressure', { pending, budget, exceeded });
+    });
     this.vSecret = new Uint8Array(0); // 初始化为空，DH密钥交换后设置实际值
+
+    // 透传传输层事件
+    sock.vEvents.on('open', (payload) => this.vEvents.emit('open', payload));
+    sock.vEvents.on('close', (payload) => this.vEvents.emit('close', payload));
+    sock.vEvents.on('error', (payload) => this.vEvents.emit('error', payload));
+  }
+
+  /**
+   * 订阅连接事件
+   * @param event 事件名
+   * @param listener 监听函数
+   * @returns 取消订阅函数
+   */
+  on<K extends keyof SConnEvents>(event: K, listener: EventListener<SConnEvents[K]>): () => void {
+    return this.vEvents.on(event, listener);
+  }
+
+  /**
+   * 取消订阅连接事件
+   * @param event 事件名
+   * @param listener 监听函数
+   */
+  off<K extends keyof SConnEvents>(event: K, listener: EventListener<SConnEvents[K]>): void {
+    this.vEvents.off(event, listener);
   }
 
   /**
@@ -576,11 +768,44 @@ export class SConn {
       };
     }
 
+    // 从正常通信进入重连时开始统计需要补发的数据，重复发起重连时继续累计
+    if (stateName === "forward") {
+      this.vCache.startTracking();
+    }
     this.vReconnectCb = cb;
     switchState(this, "reconnect");
     return { success: true };
   }
 
+  /**
+   * 获取进入失败状态的原因
+   * @returns 连接或握手超时时为 ConnectTimeoutError，否则为 null
+   */
+  lastError(): Error | null {
+    return this.vError;
+  }
+
+  /**
+   * 获取 goscon 会话收发的字节数，与重连时和服务器对账的计数相同
+   * @returns 收发字节数
+   */
+  traffic(): TrafficCounters {
+    return {
+      sent: this.vSendNumber,
+      received: this.vRecvNumber
+    };
+  }
+
+  /**
+   * 以错误断开底层连接，用于对端失联等传输层无法发现的断开
+   * 之后 update() 报告 connect_break，可以通过 reconnect() 恢复会话
+   * @param error 错误信息
+   */
+  abort(error: string): void {
+    this.log.warn("abort connection", { state: this.vState.name, error });
+    this.vSock.abort(error);
+  }
+
   /**
    * 刷新发送缓冲区（空实现）
    */
@@ -601,6 +826,12 @@ export class SConn {
       state.dispatch(this);
     }
 
+    // 建立连接或等待握手回复超时：新连接进入失败状态，重连以 connect_break 结束本次尝试
+    const timeoutResult = this.checkTimeout(updateResult.success, updateResult.error);
+    if (timeoutResult) {
+      return timeoutResult;
+    }
+
     // 网络连接主动断开
     if (updateResult.status === "connect_break") {
       return {
@@ -622,49 +853,103 @@ export class SConn {
     };
   }
 
+  /**
+   * 检查新连接或重连是否超时
+   * 建立 WebSocket 连接超时由底层连接以 dial_timeout 报告，握手回复从连接就绪后开始计时。
+   * 新连接超时后关闭连接并进入 connect_timeout 状态；
+   * 重连超时只断开本次尝试的连接，SConn 仍处于 reconnect 状态，update() 报告 connect_break，
+   * 是否再次重连由调用方的重连策略决定
+   * @param ready 底层连接是否已就绪
+   * @param error 底层连接的错误信息
+   * @returns 超时时的状态更新结果，未超时返回null
+   */
+  private checkTimeout(ready: boolean, error?: string): StateDisposeResult | null {
+    const stateName = this.vState.name;
+    if (stateName !== "newconnect" && stateName !== "reconnect") {
+      return null;
+    }
+
+    let timeoutError: ConnectTimeoutError | null = null;
+    if (error === "dial_timeout") {
+      timeoutError = new ConnectTimeoutError('dial', this.vDialTimeout);
+    } else if (ready && this.vHandshakeTimeout > 0) {
+      const now = Date.now();
+      if (this.vHandshakeDeadline === 0) {
+        this.vHandshakeDeadline = now + this.vHandshakeTimeout;
+      } else if (now > this.vHandshakeDeadline) {
+        timeoutError = new ConnectTimeoutError('handshake', this.vHandshakeTimeout);
+      }
+    }
+    if (!timeoutError) {
+      return null;
+    }
+
+    this.log.warn("connect timeout", { state: stateName, phase: timeoutError.phase, timeout: timeoutError.timeout });
+
+    if (stateName === "reconnect") {
+      const reason = `${timeoutError.phase}_timeout`;
+      const cb = this.vReconnectCb;
+      this.vReconnectCb = undefined;
+      this.vSock.abort(reason);
+      if (cb) cb(false);
+      return {
+        success: false,
+        error: reason,
+        status: "connect_break"
+      };
+    }
+
+    this.vError = timeoutError;
+    this.vSock.close();
+    switchState(this, "connect_timeout");
+    return {
+      success: false,
+      error: timeoutError.message,
+      status: "connect_timeout"
+    };
+  }
+
   /**
    * 发送数据
    * @param data 要发送的数据
-   * @returns 是否发送成功
+   * @returns 是否发送成功，关闭和重连失败状态下返回false
    */
   send(data: Uint8Array): boolean {
     const sendFn = this.vState.send;
-    if (sendFn) {
-      log.debug("sending data", { dataLength: data.length });
-      sendFn(this, data);
+    // 关闭和重连失败状态下数据会被丢弃
+    if (!sendFn || sendFn === dummy) {
+      return false;
     }
+    this.log.debug("sending data", { dataLength: data.length });
+    sendFn(this, data);
     return true;
   }
 
   /**
    * 发送消息（带包头）
    * @param data 要发送的消息数据
-   * @param headerLen 包头长度，默认为2字节
-   * @param endian 字节序，默认为big endian
-   * @returns 是否发送成功
+   * @param headerLen 包头长度，默认使用 messageHeader 配置
+   * @param endian 字节序，默认使用 messageHeader 配置
+   * @returns 是否发送成功，关闭和重连失败状态下返回false
    */
-  sendMsg(data: Uint8Array, headerLen?: number, endian?: string): boolean {
-    const sendFn = this.vState.send;
-    headerLen = headerLen || DEF_MSG_HEADER_LEN;
-    endian = endian || DEF_MSG_ENDIAN;
+  sendMsg(data: Uint8Array, headerLen?: number, endian?: Endian): boolean {
+    headerLen = headerLen || this.vHeaderLen;
+    endian = endian || this.vEndian;
 
-    const packedData = packData(data, headerLen, endian as 'big' | 'little');
-    if (sendFn) {
-      sendFn(this, packedData);
-    }
-    return true;
+    const packedData = packData(data, headerLen, endian);
+    return this.send(packedData);
   }
 
   /**
    * 接收消息
    * @param outMsg 输出消息数组
-   * @param headerLen 包头长度，默认为2字节
-   * @param endian 字节序，默认为big endian
+   * @param headerLen 包头长度，默认使用 messageHeader 配置
+   * @param endian 字节序，默认使用 messageHeader 配置
    * @returns 接收到的消息数量
    */
-  recvMsg(outMsg: Uint8Array[], headerLen?: number, endian?: string): number {
-    headerLen = headerLen || DEF_MSG_HEADER_LEN;
-    endian = endian || DEF_MSG_ENDIAN;
+  recvMsg(outMsg: Uint8Array[], headerLen?: number, endian?: Endian): number {
+    headerLen = headerLen || this.vHeaderLen;
+    endian = endian || this.vEndian;
 
     const recvBuf = this.vRecvBuf;
     const count = recvBuf.popAllMsg(outMsg, headerLen, endian);
@@ -685,12 +970,31 @@ export class SConn {
 /**
  * 连接到指定的WebSocket服务器
  * @param url WebSocket服务器URL
- * @param targetServer 目标服务器标识
- * @param flag 连接标志
+ * @param options 连接配置项
  * @returns 连接结果，包含SConn实例或错误信息
  */
-export function connect(url: string, targetServer?: string, flag?: number): ConnectResult {
-  const connectResult = connectWS(url);
+export function connect(url: string, options?: SConnOptions): ConnectResult;
+/**
+ * 连接到指定的WebSocket服务器（兼容旧的参数形式）
+ * @param url WebSocket服务器URL
+ * @param targetServer 目标服务器标识，覆盖 options.targetServer
+ * @param flag 连接标志，覆盖 options.flag
+ * @param options 连接配置项
+ * @returns 连接结果，包含SConn实例或错误信息
+ */
+export function connect(url: string, targetServer?: string, flag?: number, options?: SConnOptions): ConnectResult;
+export function connect(url: string, targetServer?: string | SConnOptions, flag?: number, options: SConnOptions = {}): ConnectResult {
+  if (typeof targetServer === "object") {
+    options = targetServer;
+  } else {
+    options = {
+      ...options,
+      targetServer: targetServer ?? options.targetServer,
+      flag: flag ?? options.flag
+    };
+  }
+
+  const connectResult = connectWS(url, options);
   if (!connectResult.connection) {
     return {
       connection: null,
@@ -698,8 +1002,8 @@ export function connect(url: string, targetServer?: string, flag?: number): Conn
     };
   }
 
-  const sconn = new SConn(connectResult.connection);
-  switchState(sconn, "newconnect", targetServer, flag);
+  const sconn = new SConn(connectResult.connection, options);
+  switchState(sconn, "newconnect", options.targetServer, options.flag);
 
   return {
     connection: sconn
@@ -0,0 +1,67 @@
+/**
+ * SessionAllocator - 会话索引分配器
+ *
+ * 在 [0, maxIndex] 范围内循环分配会话索引，跳过仍在使用中的索引，
+ * 并限制同时进行中的会话数量。
+ */
+
+/**
+ * 会话配置项接口
+ */
+export interface SessionOptions {
+  /** 最大会话索引，超过后从 0 重新开始，默认 2147483647 */
+  maxIndex?: number;
+  /** 同时进行中的会话数上限，0 表示只受索引范围限制，默认 0 */
+  maxConcurrent?: number;
+}
+
+const DEF_MAX_INDEX = 0x7fffffff;
+
+/**
+ * 会话索引分配器类
+ */
+export class SessionAllocator {
+  private maxIndex: number;
+  private maxConcurrent: number;
+  private next: number = 0;
+
+  /**
+   * 创建会话索引分配器
+   * @param options 会话配置项
+   */
+  constructor(options: SessionOptions = {}) {
+    this.maxIndex = options.maxIndex ?? DEF_MAX_INDEX;
+    this.maxConcurrent = options.maxConcurrent ?? 0;
+    if (!Number.isInteger(this.maxIndex) || this.maxIndex < 0) {
+      throw new Error(`Invalid maxIndex: ${this.maxIndex}`);
+    }
+  }
+
+  /**
+   * 获取会话数上限：maxConcurrent 与索引范围中较小的一个
+   * @returns 会话数上限
+   */
+  limit(): number {
+    const range = this.maxIndex + 1;
+    return this.maxConcurrent > 0 ? Math.min(this.maxConcurrent, range) : range;
+  }
+
+  /**
+   * 分配下一个空闲的会话索引
+   * @param inUse 使用中的会话
+   * @returns 会话索引，达到上限时返回 null
+   */
+  allocate(inUse: Map<number, unknown>): number | null {
+    if (inUse.size >= this.limit()) {
+      return null;
+    }
+
+    // 使用中的会话数小于索引范围，最多检查 size + 1 个索引即可找到空闲索引
+    let index = this.next;
+    while (inUse.has(index)) {
+      index = index >= this.maxIndex ? 0 : index + 1;
+    }
+    this.next = index >= this.maxIndex ? 0 : index + 1;
+    return index;
+  }
+}